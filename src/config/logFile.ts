@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface LogRotationOptions {
+  maxSize: number;   // Bytes before the file is rotated
+  maxAge: number;    // Milliseconds before the file is rotated
+  maxFiles: number;  // Rotated files kept per log
+  retention: number; // Milliseconds rotated files are kept
+}
+
+/**
+ * An append-only log file that rotates by size and age
+ *
+ * A rotated file is renamed to `<name>.<timestamp><ext>` next to the live file, and old
+ * rotated files are deleted once there are more than maxFiles of them or they are older
+ * than the retention period. Writes go through a stream so lines are never reordered.
+ */
+export class RotatingLogFile {
+  private filePath: string;
+  private options: LogRotationOptions;
+  private stream?: fs.WriteStream;
+  private size = 0;
+  private openedAt = 0;
+
+  constructor(filePath: string, options: LogRotationOptions) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (!this.stream) {
+      this.open();
+    } else if (this.size > 0 && (this.size + bytes > this.options.maxSize || Date.now() - this.openedAt > this.options.maxAge)) {
+      this.rotate();
+    }
+
+    this.stream!.write(line);
+    this.size += bytes;
+  }
+
+  /**
+   * Close the file, resolving once everything written so far is on disk
+   */
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = undefined;
+    return stream ? new Promise(resolve => stream.end(resolve)) : Promise.resolve();
+  }
+
+  private open(): void {
+    // Continue an existing file, keeping its size and age so restarts do not postpone rotation
+    try {
+      const stats = fs.statSync(this.filePath);
+      this.size = stats.size;
+      this.openedAt = stats.birthtimeMs || stats.ctimeMs;
+    } catch {
+      this.size = 0;
+      this.openedAt = Date.now();
+    }
+
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    this.stream.on('error', error => {
+      console.error('Failed to write to log file:', error);
+    });
+  }
+
+  private rotate(): void {
+    // Pending writes still land in the renamed file because the stream keeps its descriptor
+    this.close();
+
+    const { dir, name, ext } = path.parse(this.filePath);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    try {
+      fs.renameSync(this.filePath, path.join(dir, `${name}.${stamp}${ext}`));
+    } catch (error) {
+      console.error('Failed to rotate log file:', error);
+    }
+
+    this.open();
+    this.prune();
+  }
+
+  private prune(): void {
+    const { dir, name, ext } = path.parse(this.filePath);
+    const now = Date.now();
+
+    try {
+      // Timestamps sort lexically, so the newest rotated files come last
+      const rotated = fs.readdirSync(dir)
+        .filter(file => file.startsWith(`${name}.`) && file.endsWith(ext) && file !== path.basename(this.filePath))
+        .sort();
+
+      rotated.forEach((file, index) => {
+        const filePath = path.join(dir, file);
+        const tooMany = index < rotated.length - this.options.maxFiles;
+        if (tooMany || now - fs.statSync(filePath).mtimeMs > this.options.retention) {
+          fs.unlinkSync(filePath);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to prune rotated log files:', error);
+    }
+  }
+}
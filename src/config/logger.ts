@@ -0,0 +1,153 @@
+import path from 'path';
+import { LOG_LEVELS, getLogFilePath, initializeLogging, systemConfig } from './system.js';
+import type { LogLevel } from './system.js';
+import { RotatingLogFile } from './logFile.js';
+
+const DEFAULT_LOG_FILE = 'mcp-server.log';
+
+export interface LogContext {
+  sessionId?: string;   // Set when the record concerns a single session
+  playerId?: string;
+  method?: string;      // JSON-RPC method being handled
+  requestId?: string | number;
+  durationMs?: number;
+  broadcast?: boolean;  // Forward to every client; other records only reach the session they concern
+}
+
+export interface LogRecord extends LogContext {
+  timestamp: Date;
+  level: LogLevel;
+  logger: string;       // Name of the log the record belongs to, e.g. 'mcp-server'
+  file: string;
+  message: string;
+  data?: unknown;       // Payload, already redacted if it was too large
+}
+
+export interface LogOptions extends LogContext {
+  /** Log file to write to; defaults to mcp-server.log */
+  file?: string;
+  /** Payload to attach, such as a JSON-RPC message; large payloads are redacted */
+  data?: unknown;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Whether a record at `level` passes a `threshold`
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Replace a payload larger than systemConfig.logging.maxPayloadSize with a summary.
+ * JSON-RPC messages keep their method and id so the record still says what was sent.
+ */
+export function redactPayload(data: unknown): unknown {
+  const serialized = typeof data === 'string' ? data : JSON.stringify(data);
+  if (serialized === undefined) return data;
+
+  const bytes = Buffer.byteLength(serialized);
+  if (bytes <= systemConfig.logging.maxPayloadSize) return data;
+
+  const summary: Record<string, unknown> = { redacted: true, bytes };
+  if (data && typeof data === 'object') {
+    const { method, id } = data as { method?: unknown; id?: unknown };
+    if (method !== undefined) summary.method = method;
+    if (id !== undefined) summary.id = id;
+  }
+  return summary;
+}
+
+/**
+ * Leveled logger
+ *
+ * Drops records below systemConfig.logging.level and hands the rest to every sink:
+ * the JSON-lines log files, and whatever else registers (the MCP server forwards them
+ * to clients).
+ */
+class Logger {
+  private sinks: Set<LogSink> = new Set();
+  private files: Map<string, RotatingLogFile> = new Map();
+
+  constructor() {
+    this.addSink(record => this.writeToFile(record));
+  }
+
+  /**
+   * Add a sink for log records
+   * @returns A function that removes the sink again
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => this.sinks.delete(sink);
+  }
+
+  log(level: LogLevel, message: string, options: LogOptions = {}): void {
+    if (!isLevelEnabled(level, systemConfig.logging.level)) return;
+
+    const { file = DEFAULT_LOG_FILE, data, ...context } = options;
+    const record: LogRecord = {
+      timestamp: new Date(),
+      level,
+      logger: path.basename(file, path.extname(file)),
+      file,
+      message,
+      ...context,
+      ...(data !== undefined ? { data: redactPayload(data) } : {})
+    };
+
+    for (const sink of this.sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A broken sink must never break the code that is logging
+      }
+    }
+  }
+
+  debug(message: string, options?: LogOptions): void {
+    this.log('debug', message, options);
+  }
+
+  info(message: string, options?: LogOptions): void {
+    this.log('info', message, options);
+  }
+
+  notice(message: string, options?: LogOptions): void {
+    this.log('notice', message, options);
+  }
+
+  warning(message: string, options?: LogOptions): void {
+    this.log('warning', message, options);
+  }
+
+  error(message: string, options?: LogOptions): void {
+    this.log('error', message, options);
+  }
+
+  /**
+   * Close every open log file, waiting for pending writes. Later records reopen them.
+   */
+  async close(): Promise<void> {
+    const files = Array.from(this.files.values());
+    this.files.clear();
+    await Promise.all(files.map(logFile => logFile.close()));
+  }
+
+  private writeToFile(record: LogRecord): void {
+    if (!systemConfig.logging.enabled) return;
+
+    let logFile = this.files.get(record.file);
+    if (!logFile) {
+      initializeLogging();
+      logFile = new RotatingLogFile(getLogFilePath(record.file), systemConfig.logging.rotation);
+      this.files.set(record.file, logFile);
+    }
+
+    const { file, timestamp, ...fields } = record;
+    logFile.write(`${JSON.stringify({ timestamp: timestamp.toISOString(), ...fields })}\n`);
+  }
+}
+
+export const logger = new Logger();
@@ -2,6 +2,7 @@
 import path from 'path';
 import os from 'os';
 import fs from 'fs';
+import { parseSeed } from '../game/random.js';
 
 /**
  * System configuration settings for the MCP server
@@ -22,10 +23,257 @@ export interface SystemConfig {
     enabled: boolean;
     
     /**
-     * Log level (error, warn, info, debug)
+     * Minimum level written to log files and sent to clients (MCP/syslog levels, debug to emergency)
      */
-    level: 'error' | 'warn' | 'info' | 'debug';
+    level: LogLevel;
+
+    /**
+     * Minimum level sent to clients that have not called logging/setLevel
+     */
+    clientLevel: LogLevel;
+
+    /**
+     * Payloads (messages, chunks) larger than this many bytes are replaced by a summary
+     */
+    maxPayloadSize: number;
+
+    /**
+     * Log file rotation and retention
+     */
+    rotation: {
+      /**
+       * Rotate a log file once it would grow beyond this many bytes
+       */
+      maxSize: number;
+
+      /**
+       * Rotate a log file once it is older than this many milliseconds
+       */
+      maxAge: number;
+
+      /**
+       * Number of rotated files kept per log
+       */
+      maxFiles: number;
+
+      /**
+       * Milliseconds rotated files are kept before being deleted
+       */
+      retention: number;
+    };
   };
+
+  /**
+   * Session configuration
+   */
+  session: {
+    /**
+     * Milliseconds without activity after which a session is ended
+     */
+    idleTimeout: number;
+
+    /**
+     * Milliseconds between checks for idle sessions
+     */
+    reapInterval: number;
+
+    /**
+     * Milliseconds a disconnected session is kept so the client can resume it
+     */
+    resumeGracePeriod: number;
+  };
+
+  /**
+   * World configuration
+   */
+  world: {
+    /**
+     * shared: every player explores one persistent world.
+     * instanced: every player gets a private copy of the dungeon.
+     */
+    mode: 'shared' | 'instanced';
+
+    /**
+     * Directory of JSON/YAML world files; the built-in world is used when unset
+     */
+    directory?: string;
+
+    /**
+     * Apply edits to the world directory while the server runs
+     */
+    hotReload: boolean;
+
+    /**
+     * Milliseconds to wait for file changes to settle before reloading
+     */
+    reloadDelay: number;
+  };
+
+  /**
+   * Chance-based mechanics (combat rolls, fleeing)
+   */
+  random: {
+    /**
+     * Seed that makes every session's dice reproducible; sessions get random seeds when unset
+     */
+    seed?: number;
+  };
+
+  /**
+   * Game state persistence configuration
+   */
+  storage: {
+    /**
+     * Storage backend (file keeps state across restarts, memory does not)
+     */
+    backend: 'file' | 'memory';
+
+    /**
+     * Path of the game state file used by the file backend
+     */
+    filePath: string;
+
+    /**
+     * Milliseconds to wait after a change before saving, so bursts of changes share one write
+     */
+    saveDelay: number;
+  };
+
+  /**
+   * Transport configuration
+   */
+  transport: {
+    /**
+     * Transport used to talk to MCP clients (stdio, http or websocket)
+     */
+    type: TransportType;
+
+    /**
+     * Milliseconds to wait for a client to answer a server-initiated request (e.g. sampling)
+     */
+    requestTimeout: number;
+
+    /**
+     * Milliseconds to wait for a player to answer an elicitation request
+     */
+    elicitationTimeout: number;
+
+    /**
+     * Milliseconds list_changed notifications are held back so a burst of changes is sent once
+     */
+    listChangedDelay: number;
+
+    /**
+     * Streamable HTTP transport settings
+     */
+    http: {
+      /**
+       * Interface the HTTP server binds to
+       */
+      host: string;
+
+      /**
+       * Port the HTTP server listens on
+       */
+      port: number;
+
+      /**
+       * Path of the MCP endpoint
+       */
+      endpoint: string;
+
+      /**
+       * Origins allowed to connect (empty allows any origin)
+       */
+      allowedOrigins: string[];
+
+      /**
+       * Milliseconds a POSTed request may wait for its response before it is answered with an error
+       */
+      responseTimeout: number;
+    };
+
+    /**
+     * WebSocket transport settings
+     */
+    websocket: {
+      /**
+       * Interface the WebSocket server binds to
+       */
+      host: string;
+
+      /**
+       * Port the WebSocket server listens on
+       */
+      port: number;
+
+      /**
+       * Path clients connect to
+       */
+      path: string;
+
+      /**
+       * Interval in milliseconds between heartbeat pings; unresponsive sockets are dropped
+       */
+      heartbeatInterval: number;
+    };
+  };
+
+  /**
+   * Pagination of tools/list, prompts/list, resources/list and resources/templates/list
+   */
+  pagination: {
+    /**
+     * Maximum number of entries per page
+     */
+    pageSize: number;
+
+    /**
+     * Key that signs cursors; a random key is generated at startup when unset, so cursors do not survive restarts
+     */
+    cursorSecret?: string;
+  };
+}
+
+/**
+ * Log levels in increasing severity, as defined by the MCP logging capability (RFC 5424)
+ */
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Parse a log level name, returning undefined if it is not a known level. 'warn' is accepted for 'warning'.
+ * @param value The level name
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  if (value === 'warn') return 'warning';
+  return (LOG_LEVELS as readonly string[]).includes(value ?? '') ? value as LogLevel : undefined;
+}
+
+/**
+ * Parse a number from an environment variable, returning undefined if it is unset, not a
+ * number or below the minimum. Unlike `Number(value) || fallback`, this keeps an explicit 0.
+ * @param value The variable's value
+ * @param min The smallest accepted value
+ */
+export function parseNumber(value: string | undefined, min: number = 0): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min ? number : undefined;
+}
+
+/**
+ * Supported client transports
+ */
+export type TransportType = 'stdio' | 'http' | 'websocket';
+
+/**
+ * Parse a transport name, returning undefined if it is not a supported transport
+ * @param value The transport name
+ */
+export function parseTransportType(value: string | undefined): TransportType | undefined {
+  return value === 'stdio' || value === 'http' || value === 'websocket' ? value : undefined;
 }
 
 /**
@@ -36,7 +284,59 @@ export const systemConfig: SystemConfig = {
     // By default, logs go to a logs directory in the project root
     logDirectory: path.join(process.cwd(), 'logs'),
     enabled: true,
-    level: 'info',
+    level: parseLogLevel(process.env.MUD_LOG_LEVEL) ?? 'info',
+    clientLevel: 'warning',
+    maxPayloadSize: parseNumber(process.env.MUD_LOG_MAX_PAYLOAD) ?? 4 * 1024,
+    rotation: {
+      maxSize: parseNumber(process.env.MUD_LOG_MAX_SIZE, 1) ?? 10 * 1024 * 1024,
+      maxAge: 24 * 60 * 60 * 1000,
+      maxFiles: 10,
+      retention: 7 * 24 * 60 * 60 * 1000,
+    },
+  },
+  session: {
+    idleTimeout: 30 * 60 * 1000,
+    reapInterval: 60 * 1000,
+    resumeGracePeriod: parseNumber(process.env.MUD_RESUME_GRACE_MS) ?? 5 * 60 * 1000,
+  },
+  world: {
+    mode: process.env.MUD_WORLD_MODE === 'instanced' ? 'instanced' : 'shared',
+    directory: process.env.MUD_WORLD_DIR,
+    hotReload: process.env.MUD_WORLD_WATCH !== 'false',
+    reloadDelay: 300,
+  },
+  random: {
+    seed: parseSeed(process.env.MUD_SEED),
+  },
+  storage: {
+    backend: process.env.MUD_STORAGE === 'memory' ? 'memory' : 'file',
+    filePath: process.env.MUD_STATE_FILE || path.join(process.cwd(), 'data', 'game-state.json'),
+    saveDelay: 500,
+  },
+  transport: {
+    type: parseTransportType(process.env.MUD_TRANSPORT) ?? 'stdio',
+    requestTimeout: 30000,
+    elicitationTimeout: 120000,
+    listChangedDelay: 50,
+    http: {
+      // Bind to localhost by default so the server is not exposed to the network by accident
+      host: process.env.MUD_HTTP_HOST || '127.0.0.1',
+      port: parseNumber(process.env.MUD_HTTP_PORT, 1) ?? 3000,
+      endpoint: '/mcp',
+      allowedOrigins: [],
+      // Long enough for a tool that waits on the player's answer to an elicitation
+      responseTimeout: 180000,
+    },
+    websocket: {
+      host: process.env.MUD_WS_HOST || '127.0.0.1',
+      port: parseNumber(process.env.MUD_WS_PORT, 1) ?? 3001,
+      path: '/mcp',
+      heartbeatInterval: 30000,
+    }
+  },
+  pagination: {
+    pageSize: parseNumber(process.env.MUD_PAGE_SIZE, 1) ?? 50,
+    cursorSecret: process.env.MUD_CURSOR_SECRET,
   }
 };
 
@@ -58,25 +358,3 @@ export function initializeLogging(): void {
     fs.mkdirSync(systemConfig.logging.logDirectory, { recursive: true });
   }
 }
-
-/**
- * Write a log message to a file
- * @param message The message to log
- * @param logFile The name of the log file
- */
-export function logToFile(message: string, logFile: string): void {
-  // Skip logging if disabled in configuration
-  if (!systemConfig.logging.enabled) {
-    return;
-  }
-
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] ${message}\n`;
-  const logPath = getLogFilePath(logFile);
-
-  fs.appendFile(logPath, logMessage, (err) => {
-    if (err) {
-      console.error('Failed to write to log file:', err);
-    }
-  });
-}
\ No newline at end of file
@@ -1,7 +1,22 @@
-import { GameWorld, Room, Item, Monster, Quest } from "../types/index.js";
+import { GameWorld, Room, Item, Monster, Quest, PlayerStats } from "../types/index.js";
+import type { WorldDefinition } from "./worldLoader.js";
 
 
 
+// Room every new player starts in
+export const ENTRANCE_ROOM_ID = 'entrance';
+
+// Directions the move tool accepts, and so the only names an exit can have
+export const DIRECTIONS = ['north', 'south', 'east', 'west'] as const;
+
+// Health and combat stats of a new (or respawned) player
+export const PLAYER_BASE_STATS: PlayerStats = {
+  hp: 50,
+  maxHp: 50,
+  attack: 8,
+  defense: 2
+};
+
 export const initialRooms: { [roomId: string]: Room } = {
   'entrance': {
     id: 'entrance',
@@ -10,7 +25,7 @@ export const initialRooms: { [roomId: string]: Room } = {
     exits: {
       'north': 'hallway'
     },
-    items: ['torch'],
+    items: ['torch', 'short_sword'],
     monsters: [],
     hasQuest: false
   },
@@ -22,9 +37,11 @@ export const initialRooms: { [roomId: string]: Room } = {
       'south': 'entrance',
       'east': 'chamber'
     },
-    items: ['key'],
+    items: ['key', 'leather_armor'],
     monsters: [],
-    hasQuest: true
+    dark: true,
+    hasQuest: true,
+    quest: 'hallway_quest'
   },
   'chamber': {
     id: 'chamber',
@@ -36,6 +53,9 @@ export const initialRooms: { [roomId: string]: Room } = {
     },
     items: ['potion'],
     monsters: ['goblin'],
+    locks: {
+      'north': 'key'
+    },
     hasQuest: false
   },
   'treasure_room': {
@@ -59,8 +79,10 @@ export const initialGameWorld: GameWorld = {
       player_id: 'player1',
       room: 'entrance',
       inventory: [],
+      equipment: {},
       hasQuest: false,
-      monsterPresent: false
+      monsterPresent: false,
+      ...PLAYER_BASE_STATS
     }
   }
 };
@@ -69,15 +91,31 @@ export const initialGameWorld: GameWorld = {
 export const items: Record<string, Item> = {
   torch: {
     name: 'Torch',
-    description: 'A burning torch that provides light in dark places.'
+    description: 'A burning torch that provides light in dark places.',
+    type: 'light'
+  },
+  short_sword: {
+    name: 'Short Sword',
+    description: 'A plain but well-balanced blade.',
+    type: 'weapon',
+    attack: 4
+  },
+  leather_armor: {
+    name: 'Leather Armor',
+    description: 'A battered leather jerkin that still turns a blade.',
+    type: 'armor',
+    defense: 2
   },
   key: {
     name: 'Rusty Key',
-    description: 'An old rusty key that might open something important.'
+    description: 'An old rusty key that might open something important.',
+    type: 'key'
   },
   potion: {
     name: 'Health Potion',
-    description: 'A glowing red potion that restores health.'
+    description: 'A glowing red potion that restores health.',
+    type: 'consumable',
+    heal: 25
   },
   gold: {
     name: 'Gold Coins',
@@ -89,7 +127,8 @@ export const items: Record<string, Item> = {
   },
   golden_key: {
     name: 'Golden Key',
-    description: 'A brilliantly crafted key that seems important.'
+    description: 'A brilliantly crafted key that seems important.',
+    type: 'key'
   },
   magic_gem: {
     name: 'Magic Gem',
@@ -120,4 +159,27 @@ export const quests: Record<string, Quest> = {
     description: 'Find the ancient artifact hidden in the dungeon. The writings speak of a powerful magical gem.',
     reward: 'Unlock new areas of the dungeon'
   }
-};
\ No newline at end of file
+};
+
+/**
+ * The definition the game is currently built from
+ */
+export function getWorldDefinition(): WorldDefinition {
+  return { rooms: initialRooms, items, monsters, quests };
+}
+
+/**
+ * Replace the built-in world with a loaded definition.
+ * The exported objects are updated in place so every module importing them sees the new content.
+ */
+export function setWorldDefinition(definition: WorldDefinition): void {
+  replaceContents(initialRooms, definition.rooms);
+  replaceContents(items, definition.items);
+  replaceContents(monsters, definition.monsters);
+  replaceContents(quests, definition.quests);
+}
+
+function replaceContents<T>(target: Record<string, T>, source: Record<string, T>): void {
+  Object.keys(target).forEach(key => delete target[key]);
+  Object.assign(target, source);
+}
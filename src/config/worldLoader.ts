@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import type { ZodIssue } from 'zod';
+import type { Room, Item, Monster, Quest } from '../types/index.js';
+import { worldFileSchema, worldSectionSchemas } from './worldSchema.js';
+import { logger } from './logger.js';
+
+const WORLD_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Everything needed to build a game world
+ */
+export interface WorldDefinition {
+  rooms: { [roomId: string]: Room };
+  items: { [itemId: string]: Item };
+  monsters: { [monsterId: string]: Monster };
+  quests: { [questId: string]: Quest };
+}
+
+export interface WorldLoadIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when world files cannot be read or fail validation. Lists every problem found,
+ * each pointing at the offending file and field.
+ */
+export class WorldLoadError extends Error {
+  readonly issues: WorldLoadIssue[];
+
+  constructor(issues: WorldLoadIssue[]) {
+    super(`Invalid world definition:\n${issues.map(issue => `  ${formatIssue(issue)}`).join('\n')}`);
+    this.name = 'WorldLoadError';
+    this.issues = issues;
+  }
+}
+
+function formatIssue(issue: WorldLoadIssue): string {
+  return issue.path ? `${issue.file}: ${issue.path}: ${issue.message}` : `${issue.file}: ${issue.message}`;
+}
+
+function formatPath(segments: Array<string | number>): string {
+  return segments.join('.');
+}
+
+/**
+ * Load every JSON and YAML file in a world directory (recursively) into one definition.
+ * Files may hold any of the sections rooms, items, monsters and quests, keyed by id.
+ * @param directory The world directory
+ * @throws WorldLoadError listing every problem found
+ */
+export async function loadWorldDefinition(directory: string): Promise<WorldDefinition> {
+  const definition: WorldDefinition = { rooms: {}, items: {}, monsters: {}, quests: {} };
+  const sources: Map<string, string> = new Map(); // "section.id" -> file that defined it
+  const issues: WorldLoadIssue[] = [];
+
+  const files = await listWorldFiles(directory);
+  if (files.length === 0) {
+    throw new WorldLoadError([{ file: directory, path: '', message: 'No .json, .yaml or .yml world files found' }]);
+  }
+
+  for (const filePath of files) {
+    const file = path.relative(process.cwd(), filePath);
+
+    let raw: unknown;
+    try {
+      const text = await fs.promises.readFile(filePath, 'utf8');
+      raw = path.extname(filePath) === '.json' ? JSON.parse(text) : YAML.parse(text);
+    } catch (error) {
+      issues.push({ file, path: '', message: `Could not parse file: ${error instanceof Error ? error.message : error}` });
+      continue;
+    }
+
+    const parsed = worldFileSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+      issues.push(...parsed.error.issues.map(issue => toLoadIssue(file, [], issue)));
+      continue;
+    }
+
+    // Report misspelled sections without hiding problems in the valid ones
+    for (const key of Object.keys(raw ?? {})) {
+      if (!(key in worldSectionSchemas)) {
+        issues.push({ file, path: key, message: `Unknown section (expected ${Object.keys(worldSectionSchemas).join(', ')})` });
+      }
+    }
+
+    for (const section of Object.keys(worldSectionSchemas) as Array<keyof WorldDefinition>) {
+      for (const [id, entry] of Object.entries(parsed.data[section] ?? {})) {
+        const entryPath = [section, id];
+        const source = sources.get(`${section}.${id}`);
+        if (source) {
+          issues.push({ file, path: formatPath(entryPath), message: `Duplicate id, already defined in ${source}` });
+          continue;
+        }
+
+        // Rooms are keyed by id, so the id field is optional but must agree with the key
+        const input = section === 'rooms' && entry && typeof entry === 'object'
+          ? { id, ...entry }
+          : entry;
+        const result = worldSectionSchemas[section].safeParse(input);
+        if (!result.success) {
+          issues.push(...result.error.issues.map(issue => toLoadIssue(file, entryPath, issue)));
+          continue;
+        }
+        if (section === 'rooms' && (result.data as Room).id !== id) {
+          issues.push({ file, path: formatPath([...entryPath, 'id']), message: `Room id '${(result.data as Room).id}' does not match its key '${id}'` });
+          continue;
+        }
+
+        (definition[section] as Record<string, unknown>)[id] = result.data;
+        sources.set(`${section}.${id}`, file);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WorldLoadError(issues);
+  }
+
+  logger.info(`[World] Loaded ${Object.keys(definition.rooms).length} rooms, ${Object.keys(definition.items).length} items, ` +
+    `${Object.keys(definition.monsters).length} monsters and ${Object.keys(definition.quests).length} quests from ${directory}`);
+
+  return definition;
+}
+
+function toLoadIssue(file: string, prefix: Array<string | number>, issue: ZodIssue): WorldLoadIssue {
+  return { file, path: formatPath([...prefix, ...issue.path]), message: issue.message };
+}
+
+async function listWorldFiles(directory: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listWorldFiles(entryPath));
+    } else if (WORLD_FILE_EXTENSIONS.includes(path.extname(entry.name))) {
+      files.push(entryPath);
+    }
+  }
+
+  // Sort so duplicate-id errors always name the same file first
+  return files.sort();
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { Room, Item, Monster, Quest } from '../types/index.js';
+import { DIRECTIONS } from './world.js';
+
+/**
+ * Schemas for world definition files
+ *
+ * Each schema must produce the matching interface from types/index.ts; `satisfies`
+ * turns any drift between the two into a compile error. Optional fields get the
+ * defaults a designer would expect so files only need to spell out what matters.
+ */
+
+export const roomSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  exits: z.record(z.enum(DIRECTIONS), z.string().min(1)).default({}),
+  items: z.array(z.string().min(1)).default([]),
+  monsters: z.array(z.string().min(1)).default([]),
+  dark: z.boolean().optional(),
+  locks: z.record(z.string().min(1)).optional(),
+  hasQuest: z.boolean().default(false),
+  quest: z.string().min(1).optional()
+}).strict() satisfies z.ZodType<Room, z.ZodTypeDef, unknown>;
+
+export const itemSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  type: z.enum(['misc', 'consumable', 'weapon', 'armor', 'key', 'light']).optional(),
+  heal: z.number().int().positive().optional(),
+  attack: z.number().int().optional(),
+  defense: z.number().int().optional()
+}).strict() satisfies z.ZodType<Item, z.ZodTypeDef, unknown>;
+
+export const monsterSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  health: z.number().int().positive(),
+  damage: z.number().int().nonnegative()
+}).strict() satisfies z.ZodType<Monster, z.ZodTypeDef, unknown>;
+
+export const questSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  reward: z.string()
+}).strict() satisfies z.ZodType<Quest, z.ZodTypeDef, unknown>;
+
+/**
+ * A single world file: any mix of sections, each keyed by id
+ */
+export const worldFileSchema = z.object({
+  rooms: z.record(z.unknown()).optional(),
+  items: z.record(z.unknown()).optional(),
+  monsters: z.record(z.unknown()).optional(),
+  quests: z.record(z.unknown()).optional()
+});
+
+export const worldSectionSchemas = {
+  rooms: roomSchema,
+  items: itemSchema,
+  monsters: monsterSchema,
+  quests: questSchema
+};
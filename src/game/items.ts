@@ -0,0 +1,52 @@
+import { items } from '../config/world.js';
+import type { EquipmentSlot, PlayerState, PlayerStats, Room } from '../types/index.js';
+
+/** Every equipment slot, in the order they are listed to players */
+export const EQUIPMENT_SLOTS: EquipmentSlot[] = ['weapon', 'armor', 'light'];
+
+/**
+ * The slot an item is equipped in, or undefined if it cannot be equipped.
+ * Weapons, armor and lights each have a slot of the same name.
+ */
+export function equipmentSlotOf(itemId: string): EquipmentSlot | undefined {
+  const type = items[itemId]?.type;
+  return EQUIPMENT_SLOTS.find(slot => slot === type);
+}
+
+/**
+ * Whether the use tool does something with an item; misc items are only carried
+ */
+export function isUsable(itemId: string): boolean {
+  const type = items[itemId]?.type ?? 'misc';
+  return type !== 'misc';
+}
+
+/**
+ * Whether a player has an item equipped
+ */
+export function isEquipped(playerState: PlayerState, itemId: string): boolean {
+  return Object.values(playerState.equipment).includes(itemId);
+}
+
+/**
+ * A player's stats with the bonuses of their equipped weapon and armor
+ */
+export function effectiveStats(playerState: PlayerState): PlayerStats {
+  const bonus = (stat: 'attack' | 'defense') => Object.values(playerState.equipment)
+    .reduce((total, itemId) => total + (items[itemId ?? '']?.[stat] ?? 0), 0);
+
+  return {
+    hp: playerState.hp,
+    maxHp: playerState.maxHp,
+    attack: playerState.attack + bonus('attack'),
+    defense: playerState.defense + bonus('defense')
+  };
+}
+
+/**
+ * Whether a player can see the items in a room: always, unless it is dark and they
+ * have no light equipped
+ */
+export function canSee(playerState: PlayerState, room: Room): boolean {
+  return !room.dark || !!playerState.equipment.light;
+}
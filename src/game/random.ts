@@ -0,0 +1,84 @@
+import { randomBytes } from 'crypto';
+
+const UINT32_RANGE = 2 ** 32;
+
+/**
+ * Source of randomness for chance-based game mechanics
+ */
+export interface RandomSource {
+  readonly seed: number;
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer between min and max, inclusive */
+  int(min: number, max: number): number;
+  /** True with the given probability */
+  chance(probability: number): boolean;
+  /** One element of a non-empty list */
+  pick<T>(list: readonly T[]): T;
+}
+
+/**
+ * Deterministic random source (mulberry32)
+ *
+ * The same seed always produces the same sequence, so a game played with a known seed
+ * can be replayed exactly. The whole generator state is one 32-bit number, which is
+ * saved with the game so that a restored session carries on where it left off.
+ */
+export class SeededRandom implements RandomSource {
+  readonly seed: number;
+  private current: number;
+
+  constructor(seed: number, state: number = seed) {
+    this.seed = seed >>> 0;
+    this.current = state >>> 0;
+  }
+
+  /** Generator state to pass back to the constructor when restoring */
+  get state(): number {
+    return this.current;
+  }
+
+  next(): number {
+    this.current = (this.current + 0x6D2B79F5) >>> 0;
+    let t = this.current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  }
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(list: readonly T[]): T {
+    return list[Math.floor(this.next() * list.length)];
+  }
+}
+
+/**
+ * Parse a seed given as a number or a decimal string, returning undefined if it is not
+ * an integer between 0 and 2^32 - 1
+ */
+export function parseSeed(value: unknown): number | undefined {
+  const seed = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed < UINT32_RANGE ? seed : undefined;
+}
+
+/**
+ * Seed of the index-th session of a server started with a seed
+ */
+export function deriveSeed(serverSeed: number, index: number): number {
+  const random = new SeededRandom((serverSeed + Math.imul(index, 0x9E3779B9)) >>> 0);
+  return Math.floor(random.next() * UINT32_RANGE);
+}
+
+/**
+ * A fresh seed for games nobody asked to make reproducible
+ */
+export function randomSeed(): number {
+  return randomBytes(4).readUInt32BE(0);
+}
@@ -3,6 +3,7 @@ import type { McpServer } from '../mcp/server.js';
 import type { McpContext, ResourceDefinition, ResourceResult } from '../types/mcp.js';
 import stateService from '../services/stateService.js';
 import { items, monsters, quests } from '../config/world.js';
+import { EQUIPMENT_SLOTS, canSee, effectiveStats, isEquipped } from './items.js';
 
 export function registerResources(server: McpServer) {
   // console.log('[Game] Registering resources');
@@ -115,9 +116,18 @@ Defeat it to claim the treasure and prove your valor.`
 - Use 'pick_up' to collect items you find
 - Check your 'inventory' frequently
 
+## Items
+- Use 'equip' to wield a weapon (more attack), wear armor (more defense) or carry a light
+- Dark rooms hide their items until you have a light equipped
+- Use 'use' to drink a potion and restore HP, or to open a locked exit with its key
+- Use 'unequip' to take an item off again
+
 ## Combat
 When you encounter a monster, you can:
-- Use the 'battle' tool to fight it
+- Use the 'battle' tool to attack it; every round it strikes back
+- Use 'defend' to halve the damage you take for a round
+- Use 'flee' to try to escape through a random exit
+- Keep an eye on your hit points: if they reach zero you wake up at the entrance
 - Try to find another path around it
 - Look for items that might help you defeat it
 
@@ -141,9 +151,10 @@ Some rooms or situations may allow for special actions:
       parameters: undefined
     },
     async (uri, params, context) => {
-      const playerState = stateService.getPlayerState(context.sessionId || '');
+      const session = stateService.getSession(context.sessionId || '');
+      const playerState = session ? stateService.getPlayerState(session.playerId) : undefined;
 
-      if (!playerState) {
+      if (!session || !playerState) {
         return {
           contents: [{
             uri,
@@ -152,11 +163,19 @@ Some rooms or situations may allow for special actions:
         };
       }
 
-      const world = stateService.getWorld();
+      const world = stateService.getWorld(playerState.player_id);
       const currentRoom = world.rooms[playerState.room];
       const inventory = playerState.inventory.length > 0
         ? playerState.inventory.map(item => items[item]?.name || item).join(', ')
         : 'Empty';
+      const stats = effectiveStats(playerState);
+      const equipment = EQUIPMENT_SLOTS
+        .map(slot => `${slot.charAt(0).toUpperCase() + slot.slice(1)}: ${items[playerState.equipment[slot] ?? '']?.name ?? 'None'}`)
+        .join('\n');
+      const combat = playerState.combat;
+      const fighting = combat
+        ? `${monsters[combat.monsterId]?.name || combat.monsterId} (round ${combat.round})`
+        : 'No';
 
       return {
         contents: [{
@@ -164,9 +183,17 @@ Some rooms or situations may allow for special actions:
           text: `# Player Status
 
 Current Location: ${currentRoom.name}
+Health: ${playerState.hp}/${playerState.maxHp} HP
+Attack: ${stats.attack}
+Defense: ${stats.defense}
+In Combat: ${fighting}
 Inventory: ${inventory}
 Quest Active: ${playerState.hasQuest ? 'Yes' : 'No'}
-Monster Present: ${playerState.monsterPresent ? 'Yes' : 'No'}`
+Monster Present: ${playerState.monsterPresent ? 'Yes' : 'No'}
+Seed: ${session.seed}
+
+## Equipment
+${equipment}`
         }]
       };
     }
@@ -245,7 +272,8 @@ Good luck on your adventure!
       };
     }
 
-    const room = stateService.getWorld().rooms[playerState.room];
+    const world = stateService.getWorld(playerState.player_id);
+    const room = world.rooms[playerState.room];
     if (!room) {
       return {
         contents: [{
@@ -268,8 +296,9 @@ ${room.description}
     if (exits.length > 0) {
       exits.forEach(direction => {
         const targetRoomId = room.exits[direction];
-        const targetRoom = stateService.getWorld().rooms[targetRoomId];
-        description += `- ${direction.charAt(0).toUpperCase() + direction.slice(1)}: ${targetRoom ? targetRoom.name : targetRoomId}\n`;
+        const targetRoom = world.rooms[targetRoomId];
+        const locked = room.locks?.[direction] ? ' (locked)' : '';
+        description += `- ${direction.charAt(0).toUpperCase() + direction.slice(1)}: ${targetRoom ? targetRoom.name : targetRoomId}${locked}\n`;
       });
     } else {
       description += '- None\n';
@@ -277,7 +306,9 @@ ${room.description}
 
     // Add items
     description += '\n## Items\n';
-    if (room.items.length > 0) {
+    if (!canSee(playerState, room)) {
+      description += '- Too dark to see\n';
+    } else if (room.items.length > 0) {
       room.items.forEach(itemId => {
         const item = items[itemId];
         description += `- ${item ? item.name : itemId}\n`;
@@ -313,7 +344,10 @@ ${room.description}
 
   server.registerResource(roomDetailsResource, async (uri: string, params: Record<string, unknown>, context: McpContext): Promise<ResourceResult> => {
     const roomId = params.roomId as string;
-    const room = stateService.getWorld().rooms[roomId];
+    // Show the room as it is in the requesting player's world
+    const session = context.sessionId ? stateService.getSession(context.sessionId) : undefined;
+    const world = stateService.getWorld(session?.playerId);
+    const room = world.rooms[roomId];
     if (!room) {
       return {
         contents: [{
@@ -336,8 +370,9 @@ ${room.description}
     if (exits.length > 0) {
       exits.forEach(direction => {
         const targetRoomId = room.exits[direction];
-        const targetRoom = stateService.getWorld().rooms[targetRoomId];
-        description += `- ${direction.charAt(0).toUpperCase() + direction.slice(1)}: ${targetRoom ? targetRoom.name : targetRoomId}\n`;
+        const targetRoom = world.rooms[targetRoomId];
+        const locked = room.locks?.[direction] ? ' (locked)' : '';
+        description += `- ${direction.charAt(0).toUpperCase() + direction.slice(1)}: ${targetRoom ? targetRoom.name : targetRoomId}${locked}\n`;
       });
     } else {
       description += '- None\n';
@@ -400,7 +435,8 @@ ${room.description}
     playerState.inventory.forEach(itemId => {
       const item = items[itemId];
       if (item) {
-        inventoryDescription += `## ${item.name}\n${item.description}\n\n`;
+        const equipped = isEquipped(playerState, itemId) ? ' (equipped)' : '';
+        inventoryDescription += `## ${item.name}${equipped}\n${item.description}\n\n`;
       } else {
         inventoryDescription += `## ${itemId}\nNo description available.\n\n`;
       }
@@ -499,7 +535,12 @@ Explore the dungeon, battle monsters, collect items, and complete quests.
 
 ### Interaction
 - \`pick_up\` - Pick up an item in the room
-- \`battle\` - Fight a monster in the room
+- \`use\` - Use an item: drink a potion, open a lock with a key
+- \`equip\` - Equip a weapon, armor or light
+- \`unequip\` - Take off an equipped item
+- \`battle\` - Fight a round against a monster in the room
+- \`defend\` - Guard against the monster you are fighting
+- \`flee\` - Try to escape from the monster you are fighting
 - \`accept_quest\` - Accept a quest from the current room
 
 ## Available Prompts
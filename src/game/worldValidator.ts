@@ -0,0 +1,147 @@
+import type { WorldDefinition } from '../config/worldLoader.js';
+import { DIRECTIONS, ENTRANCE_ROOM_ID } from '../config/world.js';
+import type { ItemType } from '../types/index.js';
+
+// The field that gives each type of item its effect
+const ITEM_EFFECTS: Partial<Record<ItemType, 'heal' | 'attack' | 'defense'>> = {
+  consumable: 'heal',
+  weapon: 'attack',
+  armor: 'defense'
+};
+
+export type WorldIssueSeverity = 'error' | 'warning';
+
+export interface WorldValidationIssue {
+  severity: WorldIssueSeverity;
+  code: 'missing-entrance' | 'unsupported-exit' | 'dangling-exit' | 'one-way-passage' | 'unreachable-room'
+    | 'dangling-lock' | 'unknown-item' | 'unknown-monster' | 'unknown-quest' | 'unoffered-quest'
+    | 'not-a-key' | 'useless-item';
+  location: string;
+  message: string;
+}
+
+/**
+ * Raised when a world has validation errors. Warnings alone never raise it.
+ */
+export class WorldValidationError extends Error {
+  readonly issues: WorldValidationIssue[];
+
+  constructor(issues: WorldValidationIssue[]) {
+    super(`World validation failed:\n${formatValidationReport(issues)}`);
+    this.name = 'WorldValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Check a world definition for broken references and map problems.
+ *
+ * Errors make the world unplayable (exits the move tool cannot take, dangling exits,
+ * unknown ids, no entrance);
+ * warnings are legal but usually mistakes (one-way passages, unreachable rooms,
+ * quests no room offers, locks opened by items that are not keys, items whose type
+ * needs an effect they lack).
+ */
+export function validateWorld(definition: WorldDefinition): WorldValidationIssue[] {
+  const { rooms, items, monsters, quests } = definition;
+  const issues: WorldValidationIssue[] = [];
+
+  if (!rooms[ENTRANCE_ROOM_ID]) {
+    issues.push({
+      severity: 'error',
+      code: 'missing-entrance',
+      location: `rooms.${ENTRANCE_ROOM_ID}`,
+      message: `No '${ENTRANCE_ROOM_ID}' room; new players have nowhere to start`
+    });
+  }
+
+  for (const [roomId, room] of Object.entries(rooms)) {
+    for (const [direction, targetId] of Object.entries(room.exits)) {
+      const location = `rooms.${roomId}.exits.${direction}`;
+      if (!(DIRECTIONS as readonly string[]).includes(direction)) {
+        issues.push({ severity: 'error', code: 'unsupported-exit', location, message: `'${direction}' is not a direction players can move in (${DIRECTIONS.join(', ')})` });
+      }
+      const target = rooms[targetId];
+      if (!target) {
+        issues.push({ severity: 'error', code: 'dangling-exit', location, message: `Exit leads to unknown room '${targetId}'` });
+      } else if (targetId !== roomId && !Object.values(target.exits).includes(roomId)) {
+        issues.push({ severity: 'warning', code: 'one-way-passage', location, message: `'${targetId}' has no exit back to '${roomId}'` });
+      }
+    }
+
+    room.items.forEach((itemId, index) => {
+      if (!items[itemId]) {
+        issues.push({ severity: 'error', code: 'unknown-item', location: `rooms.${roomId}.items.${index}`, message: `Unknown item '${itemId}'` });
+      }
+    });
+
+    room.monsters.forEach((monsterId, index) => {
+      if (!monsters[monsterId]) {
+        issues.push({ severity: 'error', code: 'unknown-monster', location: `rooms.${roomId}.monsters.${index}`, message: `Unknown monster '${monsterId}'` });
+      }
+    });
+
+    for (const [direction, keyId] of Object.entries(room.locks ?? {})) {
+      const location = `rooms.${roomId}.locks.${direction}`;
+      if (!room.exits[direction]) {
+        issues.push({ severity: 'error', code: 'dangling-lock', location, message: `Lock on '${direction}', which is not an exit` });
+      }
+      if (!items[keyId]) {
+        issues.push({ severity: 'error', code: 'unknown-item', location, message: `Unknown item '${keyId}'` });
+      } else if (items[keyId].type !== 'key') {
+        issues.push({ severity: 'warning', code: 'not-a-key', location, message: `'${keyId}' is not a key, so it cannot be used to open the lock` });
+      }
+    }
+
+    if (room.quest && !quests[room.quest]) {
+      issues.push({ severity: 'error', code: 'unknown-quest', location: `rooms.${roomId}.quest`, message: `Unknown quest '${room.quest}'` });
+    }
+  }
+
+  // Walk the map from the entrance to find rooms players can never reach
+  if (rooms[ENTRANCE_ROOM_ID]) {
+    const reachable = new Set<string>([ENTRANCE_ROOM_ID]);
+    const queue = [ENTRANCE_ROOM_ID];
+    while (queue.length > 0) {
+      const room = rooms[queue.shift()!];
+      for (const targetId of Object.values(room.exits)) {
+        if (rooms[targetId] && !reachable.has(targetId)) {
+          reachable.add(targetId);
+          queue.push(targetId);
+        }
+      }
+    }
+
+    for (const roomId of Object.keys(rooms)) {
+      if (!reachable.has(roomId)) {
+        issues.push({ severity: 'warning', code: 'unreachable-room', location: `rooms.${roomId}`, message: `Room cannot be reached from '${ENTRANCE_ROOM_ID}'` });
+      }
+    }
+  }
+
+  for (const [itemId, item] of Object.entries(items)) {
+    const effect = ITEM_EFFECTS[item.type ?? 'misc'];
+    if (effect && !item[effect]) {
+      issues.push({ severity: 'warning', code: 'useless-item', location: `items.${itemId}`, message: `A ${item.type} without ${effect} does nothing` });
+    }
+  }
+
+  for (const questId of Object.keys(quests)) {
+    const offered = Object.values(rooms).some(room => room.hasQuest && room.quest === questId);
+    if (!offered) {
+      issues.push({ severity: 'warning', code: 'unoffered-quest', location: `quests.${questId}`, message: 'No room offers this quest' });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Format issues one per line, errors first
+ */
+export function formatValidationReport(issues: WorldValidationIssue[]): string {
+  return [...issues]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    .map(issue => `  ${issue.severity}: ${issue.location}: ${issue.message} [${issue.code}]`)
+    .join('\n');
+}
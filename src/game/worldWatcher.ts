@@ -0,0 +1,95 @@
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { loadWorldDefinition } from '../config/worldLoader.js';
+import { setWorldDefinition } from '../config/world.js';
+import { systemConfig } from '../config/system.js';
+import { logger } from '../config/logger.js';
+import { validateWorld, formatValidationReport } from './worldValidator.js';
+import stateService from '../services/stateService.js';
+
+/**
+ * World Watcher
+ *
+ * Watches a world directory and applies edits to the running game. A change is only
+ * applied when the whole directory loads and validates; otherwise the running world is
+ * kept and the problems are logged, so a half-saved file never breaks a live server.
+ */
+export class WorldWatcher extends EventEmitter {
+  private directory: string;
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private reloading: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = fs.watch(this.directory, { recursive: true }, (eventType, filename) => {
+      logger.debug(`[World] ${eventType} ${filename ?? ''} in ${this.directory}`);
+      this.scheduleReload();
+    });
+    this.watcher.on('error', error => {
+      logger.error(`[World] Watcher error: ${error}`);
+    });
+
+    logger.info(`[World] Watching ${this.directory} for changes`);
+  }
+
+  stop(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Load, validate and apply the world directory now
+   * @returns true if the new world was applied
+   */
+  async reload(): Promise<boolean> {
+    let applied = false;
+    // Never run two reloads at once
+    this.reloading = this.reloading.then(async () => {
+      try {
+        const definition = await loadWorldDefinition(this.directory);
+
+        const issues = validateWorld(definition);
+        if (issues.some(issue => issue.severity === 'error')) {
+          logger.warning(`[World] Reload rejected, keeping the running world:\n${formatValidationReport(issues)}`, { broadcast: true });
+          this.emit('reloadFailed', issues);
+          return;
+        }
+
+        setWorldDefinition(definition);
+        stateService.reloadWorld();
+        applied = true;
+
+        logger.info(`[World] Reloaded ${this.directory}${issues.length > 0 ? ` with warnings:\n${formatValidationReport(issues)}` : ''}`, { broadcast: true });
+        this.emit('reloaded');
+      } catch (error) {
+        logger.error(`[World] Reload failed, keeping the running world: ${error instanceof Error ? error.message : error}`, { broadcast: true });
+        this.emit('reloadFailed', error);
+      }
+    });
+
+    await this.reloading;
+    return applied;
+  }
+
+  // Editors often write a file several times in a row; reload once they settle
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.reload();
+    }, systemConfig.world.reloadDelay);
+  }
+}
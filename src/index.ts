@@ -1,8 +1,47 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { registerResources } from './game/resources.js';
 import { McpServer } from './mcp/server.js';
+import stateService from './services/stateService.js';
+import { createStorage } from './storage/index.js';
+import { loadWorldDefinition } from './config/worldLoader.js';
+import { setWorldDefinition, getWorldDefinition } from './config/world.js';
+import { WorldWatcher } from './game/worldWatcher.js';
+import { validateWorld, formatValidationReport, WorldValidationError } from './game/worldValidator.js';
 import { TransportAdapter } from './mcp/transport-adapter.js';
-import type { McpRequest, McpResponse, McpNotification } from './types/mcp.js';
+import { HttpTransport } from './mcp/http-transport.js';
+import { WebSocketTransport } from './mcp/websocket-transport.js';
+import { toJsonRpcError } from './mcp/errors.js';
+import { systemConfig, parseTransportType, type TransportType } from './config/system.js';
+import { logger } from './config/logger.js';
+import type { McpRequest, McpResponse, McpNotification, McpTransport } from './types/mcp.js';
+
+/**
+ * Resolve the transport from `--transport <type>` / `--transport=<type>`,
+ * falling back to the system configuration
+ */
+function resolveTransportType(argv: string[]): TransportType {
+  const index = argv.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+  if (index === -1) {
+    return systemConfig.transport.type;
+  }
+
+  const value = argv[index].includes('=') ? argv[index].split('=')[1] : argv[index + 1];
+  const type = parseTransportType(value);
+  if (!type) {
+    throw new Error(`Unknown transport '${value}'. Expected 'stdio', 'http' or 'websocket'.`);
+  }
+  return type;
+}
+
+function createTransport(type: TransportType): McpTransport {
+  if (type === 'http') {
+    return new HttpTransport();
+  }
+  if (type === 'websocket') {
+    return new WebSocketTransport();
+  }
+  return new TransportAdapter(new StdioServerTransport());
+}
 
 async function main() {
   try {
@@ -18,13 +57,42 @@ async function main() {
     
     registerResources(server);
 
-    // Create transport with our adapter
-    // console.log('Creating SDK transport...');
-    const sdkTransport = new StdioServerTransport();
-    const transport = new TransportAdapter(sdkTransport);
+    // Load designer-authored world files in place of the built-in world
+    const worldDefinition = systemConfig.world.directory
+      ? await loadWorldDefinition(systemConfig.world.directory)
+      : getWorldDefinition();
+
+    // Refuse to start with a broken world; report anything suspicious
+    const worldIssues = validateWorld(worldDefinition);
+    if (worldIssues.some(issue => issue.severity === 'error')) {
+      throw new WorldValidationError(worldIssues);
+    }
+    if (worldIssues.length > 0) {
+      const report = formatValidationReport(worldIssues);
+      logger.warning(`[World] Validation warnings:\n${report}`);
+      console.error(`World validation warnings:\n${report}`);
+    }
+
+    if (systemConfig.world.directory) {
+      setWorldDefinition(worldDefinition);
+      stateService.rebuildWorlds();
+    }
+
+    // Restore saved players, sessions and room changes
+    await stateService.attachStorage(createStorage(systemConfig.storage));
+
+    // Create the transport selected at startup
+    const transportType = resolveTransportType(process.argv.slice(2));
+    const transport = createTransport(transportType);
     
     // Set up message handling
-    transport.onMessage((message) => {
+    transport.onMessage((message, connectionId) => {
+      // A message with an id but no method is the client answering one of our requests
+      if ('id' in message && !('method' in message)) {
+        server.handleResponse(message, connectionId);
+        return;
+      }
+
       // Only handle request messages that have an ID
       if ('id' in message) {
         const request = message as McpRequest;
@@ -32,12 +100,10 @@ async function main() {
           request.params = {};
         }
         
-        request.params.sessionId = 'session_1234';
-        
-        server.handleRequest(request)
+        server.handleRequest(request, connectionId)
           .then(response => {
             if (response) {
-              return transport.send(response);
+              return transport.send(response, connectionId);
             }
           })
           .catch(error => {
@@ -45,40 +111,84 @@ async function main() {
             const errorResponse: McpResponse = {
               jsonrpc: "2.0",
               id: request.id,
-              error: {
-                code: -32000,
-                message: error instanceof Error ? error.message : 'Unknown error',
-              }
+              error: toJsonRpcError(error)
             };
-            return transport.send(errorResponse);
+            return transport.send(errorResponse, connectionId);
           });
       } else {
         const notification = message as McpNotification;
         // console.log('[SDK] Notification received:', notification);
-        transport.send(notification);
+        server.handleNotification(notification, connectionId);
       }
     });
     
     // Set up server's transport sender
-    server.setTransportSend((message) => {
+    server.setTransportSend((message, connectionId) => {
       // console.log(`[Server] Sending message:`, message);
-      return transport.send(message);
+      return transport.send(message, connectionId);
+    }, connectionId => transport.canSendRequests(connectionId));
+
+    // Keep a player's session resumable for a while after their connection goes away,
+    // unless the client ended it
+    transport.onDisconnect((connectionId, ended) => {
+      server.handleDisconnect(connectionId);
+      if (ended) {
+        stateService.endSessionForConnection(connectionId);
+      } else {
+        stateService.detachSession(connectionId);
+      }
     });
+
+    // An HTTP client without an event stream may be gone: its game session waits to be
+    // reaped unless the client comes back. The HTTP session lives only as long as the
+    // game session it carries.
+    if (transport instanceof HttpTransport) {
+      transport.onStreamsClosed(connectionId => stateService.detachSession(connectionId, true));
+      transport.onStreamOpened(connectionId => stateService.reattachSession(connectionId));
+      stateService.on('SESSION_ENDED', ({ connectionId }) => {
+        if (connectionId) transport.endSession(connectionId);
+      });
+    }
     
     // Start the transport
     // console.log('Starting transport...');
     await transport.start();
+    stateService.startSessionReaper();
+
+    // Apply world edits live, without dropping sessions
+    if (systemConfig.world.directory && systemConfig.world.hotReload) {
+      new WorldWatcher(systemConfig.world.directory).start();
+    }
     // console.log('MUD MCP Server is running');
 
-    // Keep the process alive
-    process.stdin.resume();
+    // Keep the process alive (network servers keep themselves alive)
+    if (transportType === 'stdio') {
+      process.stdin.resume();
+    }
     
   } catch (error) {
-    // console.log('Startup error:', error);
+    // stderr is safe to use even on the stdio transport
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Startup failed: ${message}`);
+    console.error(`Startup error: ${message}`);
+    await logger.close();
     process.exit(1);
   }
 }
 
+// Save game state before shutting down
+async function shutdown(): Promise<void> {
+  try {
+    await stateService.flush();
+    await logger.close();
+  } finally {
+    process.exit(0);
+  }
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
 process.on('uncaughtException', (error) => {
   // console.log('Uncaught exception:', error);
   process.exit(1);
@@ -0,0 +1,119 @@
+import { ZodError } from 'zod';
+
+/**
+ * JSON-RPC error codes. The -32000 to -32099 range is reserved for implementation-defined
+ * server errors; the game's own codes live there.
+ */
+export const ErrorCode = {
+  // Standard JSON-RPC 2.0 codes
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+
+  // Game codes
+  SessionNotFound: -32001,
+  ResourceNotFound: -32002, // Also the code the MCP specification uses for unknown resources
+  ToolUnavailable: -32003,
+} as const;
+
+export interface JsonRpcErrorBody {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * An error that is reported to the client as a JSON-RPC error response
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  toJSON(): JsonRpcErrorBody {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data };
+  }
+}
+
+export class InvalidRequestError extends JsonRpcError {
+  constructor(message = 'Invalid Request', data?: unknown) {
+    super(ErrorCode.InvalidRequest, message, data);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class MethodNotFoundError extends JsonRpcError {
+  constructor(method: string) {
+    super(ErrorCode.MethodNotFound, `Method '${method}' not found`, { method });
+    this.name = 'MethodNotFoundError';
+  }
+}
+
+export class InvalidParamsError extends JsonRpcError {
+  constructor(message: string, data?: unknown) {
+    super(ErrorCode.InvalidParams, message, data);
+    this.name = 'InvalidParamsError';
+  }
+}
+
+export class InternalError extends JsonRpcError {
+  constructor(message = 'Internal error', data?: unknown) {
+    super(ErrorCode.InternalError, message, data);
+    this.name = 'InternalError';
+  }
+}
+
+/**
+ * Base class for errors about the state of the game rather than the shape of the request
+ */
+export class GameError extends JsonRpcError {
+  constructor(code: number, message: string, data?: unknown) {
+    super(code, message, data);
+    this.name = 'GameError';
+  }
+}
+
+export class SessionNotFoundError extends GameError {
+  constructor(sessionId?: string) {
+    super(ErrorCode.SessionNotFound, sessionId ? `Session '${sessionId}' not found` : 'No session for this connection', { sessionId });
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export class ResourceNotFoundError extends GameError {
+  constructor(uri: string) {
+    super(ErrorCode.ResourceNotFound, `Resource '${uri}' not found`, { uri });
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+export class ToolUnavailableError extends GameError {
+  constructor(name: string) {
+    super(ErrorCode.ToolUnavailable, `Tool '${name}' is not available right now`, { tool: name });
+    this.name = 'ToolUnavailableError';
+  }
+}
+
+/**
+ * Convert anything thrown while handling a request into a JSON-RPC error body.
+ * Zod failures are invalid params; any other unexpected error is an internal error.
+ */
+export function toJsonRpcError(error: unknown): JsonRpcErrorBody {
+  if (error instanceof JsonRpcError) {
+    return error.toJSON();
+  }
+  if (error instanceof ZodError) {
+    return new InvalidParamsError('Invalid params', { issues: error.issues }).toJSON();
+  }
+  return new InternalError(error instanceof Error ? error.message : 'Unknown error').toJSON();
+}
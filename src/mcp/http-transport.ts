@@ -0,0 +1,344 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { Server } from 'http';
+import express, { type Request, type Response } from 'express';
+import type { McpRequest, McpResponse, McpNotification, McpTransport, TransportMessageHandler } from '../types/mcp.js';
+import { initializeLogging, systemConfig } from '../config/system.js';
+import { logger } from '../config/logger.js';
+import { isSupportedProtocolVersion } from './protocol.js';
+
+const SESSION_HEADER = 'mcp-session-id';
+const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+const LOG_FILE = 'http-transport.log';
+
+interface HttpSession {
+  id: string;
+  streams: Set<Response>;
+}
+
+interface PendingResponse {
+  resolve: (response: McpResponse) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Streamable HTTP transport
+ *
+ * Clients POST JSON-RPC messages to a single endpoint and receive responses in the
+ * POST body. A client may open a GET stream (Server-Sent Events) on the same endpoint
+ * to receive server-initiated notifications. Each client is identified by the
+ * Mcp-Session-Id header issued in the response to its initialize request. Requests after
+ * initialize may name the negotiated revision in MCP-Protocol-Version.
+ */
+export class HttpTransport extends EventEmitter implements McpTransport {
+  private app = express();
+  private httpServer?: Server;
+  private sessions: Map<string, HttpSession> = new Map();
+  private pending: Map<string, PendingResponse> = new Map();
+  private options: typeof systemConfig.transport.http;
+
+  constructor(options: Partial<typeof systemConfig.transport.http> = {}) {
+    super();
+    this.options = { ...systemConfig.transport.http, ...options };
+
+    // Initialize logging system
+    initializeLogging();
+
+    this.app.use(express.json({ limit: '4mb' }));
+    this.app.post(this.options.endpoint, (req, res) => {
+      // A failing request must not become an unhandled rejection, which stops the server
+      this.handlePost(req, res).catch(error => {
+        logger.error(`Failed to handle POST: ${error}`, { file: LOG_FILE });
+        if (!res.headersSent) {
+          this.sendHttpError(res, 500, -32603, 'Internal error');
+        }
+      });
+    });
+    this.app.get(this.options.endpoint, (req, res) => this.handleGet(req, res));
+    this.app.delete(this.options.endpoint, (req, res) => this.handleDelete(req, res));
+  }
+
+  public onMessage(handler: TransportMessageHandler): void {
+    this.on('message', handler);
+  }
+
+  public onClose(handler: () => void): void {
+    this.on('close', handler);
+  }
+
+  public onDisconnect(handler: (connectionId: string, ended?: boolean) => void): void {
+    this.on('disconnect', handler);
+  }
+
+  /**
+   * Requests from the server travel on the event streams, so a session needs one open
+   */
+  public canSendRequests(connectionId: string): boolean {
+    return (this.sessions.get(connectionId)?.streams.size ?? 0) > 0;
+  }
+
+  /**
+   * Called when the last event stream of a session closes. The session itself lives on
+   * until it is deleted or the server ends it.
+   */
+  public onStreamsClosed(handler: (connectionId: string) => void): void {
+    this.on('streamsClosed', handler);
+  }
+
+  /**
+   * Called when a session that had no event stream opens one
+   */
+  public onStreamOpened(handler: (connectionId: string) => void): void {
+    this.on('streamOpened', handler);
+  }
+
+  /**
+   * Forget a session the server has ended, closing its streams. Later requests that
+   * carry its Mcp-Session-Id get 404, telling the client to initialize again.
+   */
+  public endSession(sessionId: string): void {
+    if (this.dropSession(sessionId)) {
+      logger.info(`[Session] Ended by server ${sessionId}`, { file: LOG_FILE });
+    }
+  }
+
+  public async send(message: McpRequest | McpResponse | McpNotification, connectionId?: string): Promise<void> {
+    logger.debug(`[Send] ${connectionId ?? 'broadcast'}`, { file: LOG_FILE, data: message });
+
+    // Responses go back in the body of the POST that carried the request
+    if ('id' in message && !('method' in message)) {
+      const key = this.pendingKey(connectionId, message.id);
+      if (this.settle(key, message)) return;
+      logger.warning(`No pending request for response ${key}`, { file: LOG_FILE });
+      return;
+    }
+
+    // Notifications and server-initiated requests go out on the SSE streams
+    const sessions = connectionId
+      ? [this.sessions.get(connectionId)].filter((session): session is HttpSession => !!session)
+      : Array.from(this.sessions.values());
+
+    const frame = `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+    for (const session of sessions) {
+      for (const stream of session.streams) {
+        stream.write(frame);
+      }
+    }
+  }
+
+  public async start(): Promise<void> {
+    const { host, port, endpoint } = this.options;
+    logger.info(`[Start] Listening on http://${host}:${port}${endpoint}`, { file: LOG_FILE });
+
+    await new Promise<void>((resolve, reject) => {
+      const server = this.app.listen(port, host, () => resolve());
+      server.once('error', reject);
+      this.httpServer = server;
+    });
+  }
+
+  public async close(): Promise<void> {
+    logger.info('[Close] Closing transport', { file: LOG_FILE });
+
+    for (const session of this.sessions.values()) {
+      session.streams.forEach(stream => stream.end());
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+    this.emit('close');
+  }
+
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    if (!this.isOriginAllowed(req, res)) return;
+
+    const body = req.body;
+    const messages: Array<McpRequest | McpNotification | McpResponse> = Array.isArray(body) ? body : [body];
+    if (messages.length === 0 || messages.some(message => !message || message.jsonrpc !== '2.0')) {
+      this.sendHttpError(res, 400, -32600, 'Invalid Request: expected a JSON-RPC 2.0 message');
+      return;
+    }
+
+    let session: HttpSession | undefined;
+    if (messages.some(message => 'method' in message && message.method === 'initialize')) {
+      if (req.header(SESSION_HEADER)) {
+        this.sendHttpError(res, 400, -32600, 'Bad Request: initialize starts a new session and must not carry an Mcp-Session-Id header');
+        return;
+      }
+      session = { id: randomUUID(), streams: new Set() };
+      this.sessions.set(session.id, session);
+      logger.info(`[Session] Created ${session.id}`, { file: LOG_FILE });
+    } else {
+      session = this.requireSession(req, res);
+      if (!session) return;
+    }
+
+    const requests = messages.filter((message): message is McpRequest => 'method' in message && 'id' in message);
+    const responses = requests.map(request => this.waitForResponse(session!.id, request.id));
+
+    // Settle pending entries if the client goes away before we answer
+    res.on('close', () => {
+      requests.forEach(request => this.settle(this.pendingKey(session!.id, request.id), this.errorResponse(request.id, 'Client disconnected')));
+    });
+
+    for (const message of messages) {
+      logger.debug(`[Receive] ${session.id}`, { file: LOG_FILE, data: message });
+      this.emit('message', message, session.id);
+    }
+
+    res.setHeader('Mcp-Session-Id', session.id);
+
+    if (requests.length === 0) {
+      res.status(202).end();
+      return;
+    }
+
+    const results = await Promise.all(responses);
+    if (res.writableEnded || res.destroyed) return;
+    res.status(200).json(Array.isArray(body) ? results : results[0]);
+  }
+
+  private handleGet(req: Request, res: Response): void {
+    if (!this.isOriginAllowed(req, res)) return;
+
+    if (!req.accepts('text/event-stream')) {
+      res.status(406).send('Not Acceptable: client must accept text/event-stream');
+      return;
+    }
+
+    const session = this.requireSession(req, res);
+    if (!session) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Mcp-Session-Id': session.id
+    });
+    res.flushHeaders();
+
+    session.streams.add(res);
+    logger.info(`[Stream] Opened SSE stream for ${session.id}`, { file: LOG_FILE });
+    if (session.streams.size === 1) {
+      this.emit('streamOpened', session.id);
+    }
+
+    // Streams are optional and may be reopened, so losing the last one does not end the session
+    req.on('close', () => {
+      session.streams.delete(res);
+      logger.info(`[Stream] Closed SSE stream for ${session.id}`, { file: LOG_FILE });
+      if (session.streams.size === 0 && this.sessions.has(session.id)) {
+        this.emit('streamsClosed', session.id);
+      }
+    });
+  }
+
+  private handleDelete(req: Request, res: Response): void {
+    if (!this.isOriginAllowed(req, res)) return;
+
+    const session = this.requireSession(req, res);
+    if (!session) return;
+
+    this.dropSession(session.id);
+    logger.info(`[Session] Terminated ${session.id}`, { file: LOG_FILE });
+    this.emit('disconnect', session.id, true);
+
+    res.status(200).end();
+  }
+
+  /**
+   * Remove a session and end its streams
+   * @returns false if there was no such session
+   */
+  private dropSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    this.sessions.delete(sessionId);
+    session.streams.forEach(stream => stream.end());
+    return true;
+  }
+
+  /**
+   * Wait for the server to answer a request; it is answered with an error if the server
+   * takes longer than the response timeout
+   */
+  private waitForResponse(sessionId: string, id: string | number): Promise<McpResponse> {
+    const key = this.pendingKey(sessionId, id);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        logger.warning(`Request ${key} timed out after ${this.options.responseTimeout}ms`, { file: LOG_FILE });
+        this.settle(key, this.errorResponse(id, 'Request timed out'));
+      }, this.options.responseTimeout);
+      this.pending.set(key, { resolve, timer });
+    });
+  }
+
+  /**
+   * Answer a pending request
+   * @returns false if nothing was waiting for it
+   */
+  private settle(key: string, response: McpResponse): boolean {
+    const pending = this.pending.get(key);
+    if (!pending) return false;
+
+    this.pending.delete(key);
+    clearTimeout(pending.timer);
+    pending.resolve(response);
+    return true;
+  }
+
+  private errorResponse(id: string | number, message: string): McpResponse {
+    return { jsonrpc: '2.0', id, error: { code: -32603, message } };
+  }
+
+  private pendingKey(sessionId: string | undefined, id: string | number): string {
+    return `${sessionId ?? ''}:${id}`;
+  }
+
+  private requireSession(req: Request, res: Response): HttpSession | undefined {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+      this.sendHttpError(res, 400, -32600, 'Bad Request: Mcp-Session-Id header is required');
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendHttpError(res, 404, -32600, `Session '${sessionId}' not found`);
+      return undefined;
+    }
+
+    // Clients that leave the header out are assumed to speak 2025-03-26, which we support
+    const protocolVersion = req.header(PROTOCOL_VERSION_HEADER);
+    if (protocolVersion !== undefined && !isSupportedProtocolVersion(protocolVersion)) {
+      this.sendHttpError(res, 400, -32600, `Bad Request: unsupported protocol version '${protocolVersion}'`);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  private isOriginAllowed(req: Request, res: Response): boolean {
+    const origin = req.header('origin');
+    const { allowedOrigins } = this.options;
+    if (!origin || allowedOrigins.length === 0 || allowedOrigins.includes(origin)) {
+      return true;
+    }
+
+    logger.warning(`Rejected request from origin ${origin}`, { file: LOG_FILE });
+    this.sendHttpError(res, 403, -32600, `Origin '${origin}' is not allowed`);
+    return false;
+  }
+
+  private sendHttpError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code, message }
+    });
+  }
+}
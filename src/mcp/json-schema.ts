@@ -0,0 +1,109 @@
+/**
+ * Minimal JSON Schema validation
+ *
+ * Covers the keywords our tool input schemas use: type, properties, required,
+ * additionalProperties, items, enum, minLength/maxLength and minimum/maximum.
+ * Unknown keywords are ignored, as JSON Schema prescribes.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaViolation {
+  path: string;     // e.g. "direction" or "items.2"; empty for the value itself
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * @returns Every violation found; empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string[] = []): SchemaViolation[] {
+  const at = path.join('.');
+  const violations: SchemaViolation[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path: at, message: `Expected ${schema.type}, received ${typeOf(value)}` }];
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    violations.push({ path: at, message: `Must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path: at, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path: at, message: `Must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path: at, message: `Must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path: at, message: `Must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...validateJsonSchema(item, schema.items!, [...path, String(index)]));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        violations.push({ path: [...path, name].join('.'), message: 'Required' });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (properties[name]) {
+        violations.push(...validateJsonSchema(propertyValue, properties[name], [...path, name]));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: [...path, name].join('.'), message: 'Unknown property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...validateJsonSchema(propertyValue, schema.additionalProperties, [...path, name]));
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,77 @@
+import stateService from '../services/stateService.js';
+import { logger } from '../config/logger.js';
+
+export type ListKind = 'tools' | 'prompts' | 'resources';
+
+export type NotificationSender = (message: any, connectionId: string) => Promise<void>;
+
+/** Every session rather than one player's */
+export const ALL_PLAYERS = 'all';
+
+/**
+ * Notification Router
+ *
+ * Delivers list_changed notifications to the connections of the players whose lists
+ * changed, never to everyone else. Notifications are held back for a short delay and
+ * merged per connection, so a burst of changes (a move followed by a take) reaches the
+ * client as one notification per list. As the specification prescribes, they carry no
+ * params: clients fetch the new list with tools/list, prompts/list or resources/list.
+ */
+export class NotificationRouter {
+  private send: NotificationSender;
+  private delay: number;
+  private pending: Map<string, Set<ListKind>> = new Map(); // connectionId -> lists to announce
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(send: NotificationSender, delay: number) {
+    this.send = send;
+    this.delay = delay;
+  }
+
+  /**
+   * Announce that a list changed for a player, or for every player with ALL_PLAYERS
+   */
+  listChanged(kind: ListKind, playerId: string): void {
+    for (const connectionId of this.connectionsFor(playerId)) {
+      const lists = this.pending.get(connectionId) ?? new Set<ListKind>();
+      lists.add(kind);
+      this.pending.set(connectionId, lists);
+
+      if (!this.timers.has(connectionId)) {
+        this.timers.set(connectionId, setTimeout(() => this.flush(connectionId), this.delay));
+      }
+    }
+  }
+
+  /**
+   * Connections of the sessions playing a player, or of every session for ALL_PLAYERS
+   */
+  connectionsFor(playerId: string): string[] {
+    return stateService.getSessions()
+      .filter(session => playerId === ALL_PLAYERS || session.playerId === playerId)
+      .flatMap(session => session.connectionId ? [session.connectionId] : []);
+  }
+
+  /**
+   * Drop anything still waiting for a connection that has closed
+   */
+  forget(connectionId: string): void {
+    clearTimeout(this.timers.get(connectionId));
+    this.timers.delete(connectionId);
+    this.pending.delete(connectionId);
+  }
+
+  private async flush(connectionId: string): Promise<void> {
+    const lists = this.pending.get(connectionId) ?? new Set<ListKind>();
+    this.forget(connectionId);
+
+    for (const kind of lists) {
+      logger.info(`[Notify] ${kind} list changed for connection: ${connectionId}`);
+      try {
+        await this.send({ jsonrpc: '2.0', method: `notifications/${kind}/list_changed` }, connectionId);
+      } catch (error) {
+        logger.warning(`[Notify] Failed to send ${kind} list_changed to ${connectionId}: ${error}`);
+      }
+    }
+  }
+}
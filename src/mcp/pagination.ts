@@ -0,0 +1,90 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { InvalidParamsError } from './errors.js';
+
+interface CursorPayload {
+  list: string;        // List method the cursor belongs to, e.g. tools/list
+  offset: number;      // Position of the first entry of the next page
+  fingerprint: string; // Hash of the list's keys when the cursor was issued
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string; // Absent on the last page
+}
+
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Cursor pagination for list methods
+ *
+ * Entries are sorted by key so that pages are stable. A cursor is the signed position of
+ * the next page together with a fingerprint of the whole list. Clients treat it as
+ * opaque; we reject it with invalid params if its signature does not match, if it was
+ * issued for another list, or if the list has changed since (the client should then
+ * list again from the start).
+ */
+export class Paginator {
+  private pageSize: number;
+  private secret: Buffer;
+
+  constructor(pageSize: number, secret?: string) {
+    this.pageSize = Math.max(1, Math.floor(pageSize));
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+  }
+
+  /**
+   * Get the page of entries a cursor points to, or the first page without one
+   * @param list The list method, so cursors cannot be used with another list
+   * @param keyOf Unique key of an entry, such as a tool name or resource URI
+   * @throws InvalidParamsError if the cursor is malformed, tampered with or stale
+   */
+  paginate<T>(list: string, entries: T[], keyOf: (entry: T) => string, cursor?: unknown): Page<T> {
+    const sorted = [...entries].sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+    const fingerprint = this.fingerprint(sorted.map(keyOf));
+    const offset = cursor === undefined ? 0 : this.decode(cursor, list, fingerprint);
+
+    const items = sorted.slice(offset, offset + this.pageSize);
+    const next = offset + items.length;
+    return next < sorted.length
+      ? { items, nextCursor: this.encode({ list, offset: next, fingerprint }) }
+      : { items };
+  }
+
+  private encode(payload: CursorPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private decode(cursor: unknown, list: string, fingerprint: string): number {
+    if (typeof cursor !== 'string') {
+      throw new InvalidParamsError('Invalid cursor: expected a string', { cursor });
+    }
+
+    const [body, signature, ...rest] = cursor.split('.');
+    const expected = this.sign(body ?? '');
+    if (!body || !signature || rest.length > 0 || signature.length !== expected.length
+      || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new InvalidParamsError('Invalid cursor', { cursor });
+    }
+
+    // The signature matched, so the payload is one we issued
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as CursorPayload;
+    if (payload.list !== list) {
+      throw new InvalidParamsError(`Invalid cursor: issued for ${payload.list}, not ${list}`, { cursor });
+    }
+    if (payload.fingerprint !== fingerprint) {
+      throw new InvalidParamsError('Stale cursor: the list has changed, request it again without a cursor', { cursor });
+    }
+    return payload.offset;
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private fingerprint(keys: string[]): string {
+    return createHash('sha256').update(keys.join('\n')).digest('base64url').slice(0, 16);
+  }
+}
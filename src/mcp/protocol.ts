@@ -0,0 +1,65 @@
+/**
+ * MCP protocol revisions and the features each one introduced
+ *
+ * A client names the revision it wants in initialize. We answer with the same revision
+ * if we support it and with our latest one otherwise; the client then decides whether
+ * it can carry on. Everything the server sends afterwards is limited to what the
+ * negotiated revision and the client's capabilities allow.
+ */
+
+/** Supported revisions, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+export type ProtocolVersion = typeof SUPPORTED_PROTOCOL_VERSIONS[number];
+
+export const LATEST_PROTOCOL_VERSION: ProtocolVersion = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * Features that depend on the protocol revision, with the revision that introduced them
+ */
+const FEATURE_VERSIONS = {
+  toolAnnotations: '2025-03-26',   // annotations on tools/list entries
+  completions: '2025-03-26',       // the completions server capability
+  progressMessages: '2025-03-26',  // message field of notifications/progress
+  structuredOutput: '2025-06-18',  // outputSchema and structuredContent
+  elicitation: '2025-06-18',       // elicitation/create requests
+} as const satisfies Record<string, ProtocolVersion>;
+
+export type ProtocolFeature = keyof typeof FEATURE_VERSIONS;
+
+/**
+ * Capabilities a client declares in initialize
+ */
+export interface ClientCapabilities {
+  sampling?: Record<string, unknown>;
+  elicitation?: Record<string, unknown>;
+  roots?: { listChanged?: boolean };
+  experimental?: Record<string, unknown>;
+}
+
+/**
+ * What was agreed with one client in initialize
+ */
+export interface NegotiatedProtocol {
+  protocolVersion: ProtocolVersion;
+  capabilities: ClientCapabilities;
+  clientInfo?: { name: string; version: string };
+}
+
+export function isSupportedProtocolVersion(version: unknown): version is ProtocolVersion {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version as ProtocolVersion);
+}
+
+/**
+ * Pick the revision to answer a client's initialize with
+ */
+export function negotiateProtocolVersion(requested: unknown): ProtocolVersion {
+  return isSupportedProtocolVersion(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+/**
+ * Whether a revision includes a feature. Revisions are dates, so they compare as strings.
+ */
+export function supportsFeature(version: ProtocolVersion, feature: ProtocolFeature): boolean {
+  return version >= FEATURE_VERSIONS[feature];
+}
@@ -0,0 +1,171 @@
+import { JsonRpcError } from './errors.js';
+import { logger } from '../config/logger.js';
+
+export type RequestSender = (message: any, connectionId?: string) => Promise<void>;
+
+export interface OutboundRequestOptions {
+  /** Connection to send the request to; without one it goes to every client */
+  connectionId?: string;
+  /** Milliseconds to wait for the response before giving up */
+  timeout?: number;
+  /** Aborting cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Raised when a client does not answer a request in time
+ */
+export class RequestTimeoutError extends Error {
+  constructor(method: string, timeout: number) {
+    super(`Request '${method}' timed out after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Raised when a request is cancelled before the client answered
+ */
+export class RequestCancelledError extends Error {
+  constructor(method: string, reason: string) {
+    super(`Request '${method}' was cancelled: ${reason}`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+interface PendingRequest {
+  method: string;
+  connectionId?: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+/**
+ * Outbound Request Tracker
+ *
+ * Sends server-to-client requests (sampling, elicitation, ...) and matches the client's
+ * responses to them by id. Each request resolves with the response's result, or rejects
+ * with the client's error, a timeout or a cancellation. Timed-out and cancelled requests
+ * are announced to the client with notifications/cancelled.
+ */
+export class RequestTracker {
+  private send: RequestSender;
+  private defaultTimeout: number;
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextId = 1;
+
+  constructor(send: RequestSender, defaultTimeout: number) {
+    this.send = send;
+    this.defaultTimeout = defaultTimeout;
+  }
+
+  /**
+   * Send a request to the client and wait for its response
+   * @returns The result of the response
+   */
+  request<T = unknown>(method: string, params: unknown, options: OutboundRequestOptions = {}): Promise<T> {
+    const id = `server_${this.nextId++}`;
+    const timeout = options.timeout ?? this.defaultTimeout;
+
+    if (options.signal?.aborted) {
+      return Promise.reject(new RequestCancelledError(method, String(options.signal.reason ?? 'aborted')));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => this.cancel(id, String(options.signal?.reason ?? 'aborted'));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timer = setTimeout(() => {
+        this.settle(id)?.reject(new RequestTimeoutError(method, timeout));
+        this.notifyCancelled(id, `Timed out after ${timeout}ms`, options.connectionId);
+      }, timeout);
+
+      this.pending.set(id, {
+        method,
+        connectionId: options.connectionId,
+        resolve,
+        reject,
+        timer,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort)
+      });
+
+      logger.debug(`[Outbound] Sending ${method} request ${id}`, { data: params });
+      this.send({ jsonrpc: '2.0', id, method, params }, options.connectionId).catch(error => {
+        this.settle(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  /**
+   * Match a client response to its pending request
+   * @returns false if no request with the response's id is pending
+   */
+  handleResponse(response: { id?: string | number; result?: unknown; error?: { code: number; message: string; data?: unknown } }, connectionId?: string): boolean {
+    const id = String(response.id);
+    const request = this.pending.get(id);
+    if (!request) {
+      logger.warning(`[Outbound] Response ${id} does not match a pending request`);
+      return false;
+    }
+    if (request.connectionId && connectionId && request.connectionId !== connectionId) {
+      logger.warning(`[Outbound] Response ${id} came from ${connectionId}, not ${request.connectionId}`);
+      return false;
+    }
+
+    this.settle(id);
+    if (response.error) {
+      logger.warning(`[Outbound] ${request.method} request ${id} failed: ${response.error.message}`);
+      request.reject(new JsonRpcError(response.error.code, response.error.message, response.error.data));
+    } else {
+      logger.debug(`[Outbound] ${request.method} request ${id} answered`, { data: response.result });
+      request.resolve(response.result);
+    }
+    return true;
+  }
+
+  /**
+   * Cancel a pending request, rejecting it and telling the client to stop working on it
+   */
+  cancel(id: string, reason: string): boolean {
+    const request = this.settle(id);
+    if (!request) return false;
+
+    request.reject(new RequestCancelledError(request.method, reason));
+    this.notifyCancelled(id, reason, request.connectionId);
+    return true;
+  }
+
+  /**
+   * Reject every request sent to a connection; used when it goes away and can no longer answer
+   */
+  cancelForConnection(connectionId: string, reason: string): void {
+    for (const [id, request] of this.pending) {
+      if (request.connectionId === connectionId) {
+        this.settle(id);
+        request.reject(new RequestCancelledError(request.method, reason));
+      }
+    }
+  }
+
+  // Remove a request from the pending set, returning it if it was still pending
+  private settle(id: string): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (!request) return undefined;
+
+    this.pending.delete(id);
+    clearTimeout(request.timer);
+    request.cleanup();
+    return request;
+  }
+
+  private notifyCancelled(requestId: string, reason: string, connectionId?: string): void {
+    this.send({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId, reason }
+    }, connectionId).catch(() => {
+      // The client is gone; there is nobody left to tell
+    });
+  }
+}
@@ -12,18 +12,59 @@ import type {
   CreateMessageRequest,
   CreateMessageResult,
   SamplingHandler,
+  ElicitRequest,
+  ElicitResult,
+  ElicitationHandler,
+  CompletionReference,
 } from '../types/mcp.js';
-import type { Prompt } from '../types/index.js';
+import type { Prompt, PlayerUpdate } from '../types/index.js';
 import stateService from '../services/stateService.js';
 import toolsService from '../services/toolsService.js';
 import promptsService from '../services/promptsService.js';
 import samplingService from '../services/samplingService.js';
-import { initializeLogging, logToFile } from '../config/system.js';
+import elicitationService from '../services/elicitationService.js';
+import completionService from '../services/completionService.js';
+import { UriTemplate } from './uri-template.js';
+import { RequestTracker, type OutboundRequestOptions } from './request-tracker.js';
+import { Paginator } from './pagination.js';
+import { NotificationRouter, ALL_PLAYERS } from './notification-router.js';
+import { parseSeed } from '../game/random.js';
+import {
+  negotiateProtocolVersion,
+  supportsFeature,
+  type ClientCapabilities,
+  type NegotiatedProtocol,
+  type ProtocolFeature,
+} from './protocol.js';
+import {
+  toJsonRpcError,
+  ErrorCode,
+  InvalidRequestError,
+  InvalidParamsError,
+  MethodNotFoundError,
+  SessionNotFoundError,
+  ResourceNotFoundError,
+  ToolUnavailableError,
+} from './errors.js';
+import { initializeLogging } from '../config/system.js';
+import { logger, isLevelEnabled } from '../config/logger.js';
+import type { LogRecord } from '../config/logger.js';
+import { systemConfig, parseLogLevel } from '../config/system.js';
+import type { LogLevel } from '../config/system.js';
 
 export type ToolHandler = (params: Record<string, unknown>, context: McpContext) => Promise<ToolResult>;
 export type PromptHandler = (params: Record<string, unknown>, context: McpContext) => Promise<PromptResult>;
 export type ResourceHandler = (uri: string, params: Record<string, unknown>, context: McpContext) => Promise<ResourceResult>;
-export type MessageSender = (message: any) => Promise<void>;
+export type MessageSender = (message: any, connectionId?: string) => Promise<void>;
+
+// Resources whose contents depend on each kind of player update
+const UPDATED_RESOURCES: Record<PlayerUpdate, string[]> = {
+  location: ['mud://player/status', 'mud://room/current'],
+  inventory: ['mud://player/status', 'mud://player/inventory'],
+  quest: ['mud://player/status', 'mud://player/quests'],
+  health: ['mud://player/status'],
+  room: ['mud://player/status', 'mud://room/current']
+};
 
 export class McpServer extends EventEmitter {
   private options: {
@@ -32,8 +73,16 @@ export class McpServer extends EventEmitter {
     description?: string;
   };
   private transportSend?: MessageSender;
+  private canReach?: (connectionId: string) => boolean;
   private resources: Map<string, { definition: ResourceDefinition; handler: ResourceHandler }> = new Map();
-  private clientCapabilities: Record<string, any> = {};
+  private resourceTemplates: Array<{ template: UriTemplate; definition: ResourceDefinition; handler: ResourceHandler }> = [];
+  private protocols: Map<string, NegotiatedProtocol> = new Map(); // sessionId -> revision and client capabilities from initialize
+  private subscriptions: Map<string, Set<string>> = new Map(); // sessionId -> subscribed resource URIs
+  private logLevels: Map<string, LogLevel> = new Map(); // sessionId -> level set with logging/setLevel
+  private requests: RequestTracker;
+  private paginator: Paginator;
+  private notifications: NotificationRouter;
+  private inFlight: Map<string, AbortController> = new Map(); // "connectionId:requestId" -> running request
 
   constructor(options: {
     name: string;
@@ -42,197 +91,312 @@ export class McpServer extends EventEmitter {
   }) {
     super();
     this.options = options;
+    this.requests = new RequestTracker((message, connectionId) => this.sendMessage(message, connectionId), systemConfig.transport.requestTimeout);
+    this.paginator = new Paginator(systemConfig.pagination.pageSize, systemConfig.pagination.cursorSecret);
+    this.notifications = new NotificationRouter((message, connectionId) => this.sendMessage(message, connectionId), systemConfig.transport.listChangedDelay);
 
     // Initialize logging system
     initializeLogging();
 
     // Listen for state changes
-    stateService.on('TOOLS_CHANGED', async ({ playerId }) => {
-      await this.notifyToolsChanged(playerId);
+    stateService.on('TOOLS_CHANGED', ({ playerId }) => {
+      this.notifyToolsChanged(playerId);
     });
 
-    stateService.on('PROMPTS_CHANGED', async ({ playerId }) => {
-      await this.notifyPromptsChanged(playerId);
+    stateService.on('PROMPTS_CHANGED', ({ playerId }) => {
+      this.notifyPromptsChanged(playerId);
     });
-  }
-  private async notifyToolsChanged(playerId: string): Promise<void> {
-    if (!this.transportSend) return;
-
-    logToFile(`[Notify] Tools changed for player: ${playerId}`, 'mcp-server.log');
 
-    const availableTools = toolsService.getAvailableTools(playerId);
-    
-    const notification = {
-      jsonrpc: '2.0',
-      method: 'notifications/tools/list_changed',
-      params: {
-        tools: availableTools.map((tool) => {
-          const toolRes: {
-            name: string;
-            description?: string;
-            inputSchema: {
-              type: "object";
-              properties?: Record<string, any>;
-              required?: string[];
-            };
-          } = {
-            name: tool.name,
-            description: tool.description,
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          };          if (tool.inputSchema && tool.inputSchema.properties) {
-            const propertiesObj: Record<string, any> = tool.inputSchema.properties;
-            
-            toolRes.inputSchema = {
-              type: 'object',
-              properties: propertiesObj,
-              required: tool.inputSchema.required || []
-            };
-          }
+    // Rooms and catalogs behind our resources change when the world is reloaded
+    stateService.on('WORLD_RELOADED', () => {
+      this.notifyResourcesChanged();
+    });
 
-          return toolRes;
-        })
-      }
-    };
+    stateService.on('PLAYER_UPDATED', async ({ playerId, changes }) => {
+      await this.notifyResourcesUpdated(playerId, changes);
+    });
 
-    logToFile(`[Response] Tools notify change: ${JSON.stringify(notification)}`, 'mcp-server.log');
+    stateService.on('SESSION_ENDED', ({ sessionId }) => {
+      this.subscriptions.delete(sessionId);
+      this.logLevels.delete(sessionId);
+      this.protocols.delete(sessionId);
+    });
 
-    await this.sendMessage(notification);
+    logger.addSink(record => this.forwardLog(record));
   }
 
-  private async notifyPromptsChanged(playerId: string): Promise<void> {
-    if (!this.transportSend) return;
-
-    logToFile(`[Notify] Prompts changed for player: ${playerId}`, 'mcp-server.log');
-
-    const playerState = stateService.getPlayerState(playerId);
-    if (!playerState) return;
+  // Tell the player's clients to fetch tools/list again
+  private notifyToolsChanged(playerId: string): void {
+    this.notifications.listChanged('tools', playerId);
+  }
 
-    const availablePrompts = promptsService.getAvailablePrompts(playerId);
+  // Tell the player's clients, or every client for 'all', to fetch prompts/list again
+  private notifyPromptsChanged(playerId: string): void {
+    this.notifications.listChanged('prompts', playerId);
+  }
 
-    const notification = {
-      jsonrpc: '2.0',
-      method: 'notifications/prompts/list_changed',
-      params: {
-        prompts: availablePrompts
-      }
-    };
+  private notifyResourcesChanged(): void {
+    this.notifications.listChanged('resources', ALL_PLAYERS);
+  }
 
-    await this.sendMessage(notification);
+  /**
+   * Send notifications/resources/updated for each resource the player's session
+   * subscribed to whose contents were affected
+   */
+  private async notifyResourcesUpdated(playerId: string, changes: PlayerUpdate[]): Promise<void> {
+    const session = stateService.getSessionByPlayer(playerId);
+    const subscribed = session ? this.subscriptions.get(session.id) : undefined;
+    if (!session?.connectionId || !subscribed) return;
+
+    const uris = new Set(changes.flatMap(change => UPDATED_RESOURCES[change]));
+    for (const uri of uris) {
+      if (!subscribed.has(uri)) continue;
+
+      logger.info(`[Notify] Resource ${uri} updated for session: ${session.id}`);
+      await this.sendMessage({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri }
+      }, session.connectionId);
+    }
   }
 
-  // Set the transport send method
-  public setTransportSend(sender: MessageSender): void {
+  // Set the transport send method, and how to tell whether our requests can reach a connection
+  public setTransportSend(sender: MessageSender, canReach?: (connectionId: string) => boolean): void {
     // console.log('[MCP] Setting transport send method');
     this.transportSend = sender;
-    
-    // Now that we have a transport send method, publish our initial lists
-    this.publishInitialLists();
+    this.canReach = canReach;
   }
 
-  // Unified message sending method
-  private async sendMessage(message: any): Promise<void> {
+  // Unified message sending method; without a connection the message goes to every client
+  private async sendMessage(message: any, connectionId?: string): Promise<void> {
     if (!this.transportSend) {
-      logToFile('[Error] Cannot send message - no transport send method', 'mcp-server.log');
+      logger.error('Cannot send message - no transport send method');
       return;
     }
 
     try {
-      logToFile(`[Send] Sending message: ${JSON.stringify(message)}`, 'mcp-server.log');
-      await this.transportSend(message);
+      const sessionId = connectionId ? stateService.getSessionByConnection(connectionId)?.id : undefined;
+      logger.debug('[Send] Sending message', { sessionId, data: message });
+      await this.transportSend(message, connectionId);
     } catch (error) {
-      logToFile(`[Error] Failed to send message: ${error}`, 'mcp-server.log');
+      logger.error(`Failed to send message: ${error}`);
     }
   }
 
-  private async publishInitialLists(): Promise<void> {
-    // Create a session without passing a parameter
-    const session = stateService.createSession();
-    const defaultPlayerId = session.playerId;
-    
+  /**
+   * Send a log record to clients as notifications/message. Records about a session or its
+   * player go to that session only, and records marked broadcast to every session; the rest
+   * stay on the server. A session only gets the records its level admits.
+   */
+  private forwardLog(record: LogRecord): void {
+    // Transport logs carry raw frames from every connection, including these notifications
+    if (!this.transportSend || record.logger !== 'mcp-server') return;
+
+    const sessions = record.sessionId ? [stateService.getSession(record.sessionId)]
+      : record.playerId ? [stateService.getSessionByPlayer(record.playerId)]
+      : record.broadcast ? stateService.getSessions()
+      : [];
+
+    for (const session of sessions) {
+      if (!session?.connectionId) continue;
+      if (!isLevelEnabled(record.level, this.logLevels.get(session.id) ?? systemConfig.logging.clientLevel)) continue;
+
+      // Sent directly rather than through sendMessage, which would log the send and loop
+      this.transportSend({
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: {
+          level: record.level,
+          logger: record.logger,
+          data: record.data === undefined ? record.message : { message: record.message, data: record.data }
+        }
+      }, session.connectionId).catch(() => {
+        // Nowhere left to report a failure to deliver a log message
+      });
+    }
+  }
+
+  private publishInitialLists(playerId: string): void {
     // console.log('[MCP] Publishing initial tool, prompt, and resource lists');
     
     // Simulate state changes to trigger notifications
-    await this.notifyToolsChanged(defaultPlayerId);
-    await this.notifyPromptsChanged(defaultPlayerId);
+    this.notifyToolsChanged(playerId);
+    this.notifyPromptsChanged(playerId);
   }
 
-  public async handleRequest(request: any): Promise<any> {
+  /**
+   * Handle a request from a client, logging its outcome and duration
+   * @param request The JSON-RPC request
+   * @param connectionId The transport connection the request arrived on; it determines the session
+   */
+  public async handleRequest(request: any, connectionId?: string): Promise<any> {
+    const startedAt = Date.now();
+    const key = this.inFlightKey(request.id, connectionId);
+    const controller = new AbortController();
+    this.inFlight.set(key, controller);
+
+    let failed = false;
     try {
-      logToFile(`[Request] Handling request: ${JSON.stringify(request)}`, 'mcp-server.log');
+      const response = await this.processRequest(request, connectionId, controller.signal);
+      // A cancelled request gets no response at all
+      return controller.signal.aborted ? null : response;
+    } catch (error) {
+      failed = true;
+      if (controller.signal.aborted) return null;
+      throw error;
+    } finally {
+      this.inFlight.delete(key);
+      const session = connectionId ? stateService.getSessionByConnection(connectionId) : undefined;
+      const outcome = controller.signal.aborted ? 'cancelled' : failed ? 'failed' : 'completed';
+      logger.info(`[Request] ${request.method} ${outcome}`, {
+        sessionId: session?.id,
+        playerId: session?.playerId,
+        method: request.method,
+        requestId: request.id,
+        durationMs: Date.now() - startedAt
+      });
+    }
+  }
+
+  /**
+   * Handle a notification from a client
+   * @param notification The JSON-RPC notification
+   * @param connectionId The transport connection it arrived on
+   */
+  public handleNotification(notification: any, connectionId?: string): void {
+    const { method, params = {} } = notification;
+    const session = connectionId ? stateService.getSessionByConnection(connectionId) : undefined;
+    logger.debug(`[Notification] ${method}`, { sessionId: session?.id, method, data: notification });
+
+    switch (method) {
+      case 'notifications/initialized':
+        // Client is now ready, we can send our tool/prompt/resource notifications
+        if (session) {
+          this.publishInitialLists(session.playerId);
+        }
+
+        // Set up sampling transport now that client is ready
+        if (this.clientSupports(session?.id, 'sampling')) {
+          this.setSamplingTransport();
+        }
+        if (this.clientSupports(session?.id, 'elicitation')) {
+          this.setElicitationTransport();
+        }
+        break;
+
+      case 'notifications/cancelled': {
+        const controller = this.inFlight.get(this.inFlightKey(params.requestId, connectionId));
+        if (controller) {
+          logger.info(`[Request] Client cancelled request ${params.requestId}${params.reason ? `: ${params.reason}` : ''}`, { sessionId: session?.id });
+          controller.abort(params.reason ?? 'Cancelled by client');
+        }
+        break;
+      }
+
+      default:
+        // Notifications we do not understand are ignored, as JSON-RPC requires
+        break;
+    }
+  }
+
+  // Request ids are only unique per client, so in-flight requests are keyed by connection too
+  private inFlightKey(requestId: unknown, connectionId?: string): string {
+    return `${connectionId ?? ''}:${String(requestId)}`;
+  }
+
+  private async processRequest(request: any, connectionId: string | undefined, signal: AbortSignal): Promise<any> {
+    const logSessionId = connectionId ? stateService.getSessionByConnection(connectionId)?.id : undefined;
+    try {
+      logger.debug('[Request] Handling request', { sessionId: logSessionId, method: request.method, requestId: request.id, data: request });
       const { method, params = {}, id } = request;
+      if (typeof method !== 'string') {
+        throw new InvalidRequestError('Request is missing a method');
+      }
+      if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+        throw new InvalidParamsError('Params must be an object');
+      }
+
+      // The session always comes from the connection, never from client-supplied params
+      delete params.sessionId;
 
       // For all non-initialize requests, ensure we have a valid session
       if (method !== 'initialize' && method !== 'ping') {
-        // Get session ID from params or create new session
-        const sessionId = params.sessionId || 'default';
-        let session = stateService.getSession(sessionId);
-        
-        // Create session if it doesn't exist
+        const session = connectionId ? stateService.getSessionByConnection(connectionId) : undefined;
+
+        // A client that skipped initialize or whose session was reaped must initialize again,
+        // resuming with its token, rather than silently starting over as a new player
         if (!session) {
-          session = stateService.createSession();
-          // Store session ID in transport for future requests
-          if (this.transportSend) {
-            const adapter = this.transportSend as any;
-            if (adapter.setSessionId) {
-              adapter.setSessionId(session.id);
-            }
-          }
+          throw new SessionNotFoundError();
         }
 
+        stateService.touchSession(session.id);
+
         // Add session to context
         params.sessionId = session.id;
       }
 
+      const progressToken = params._meta?.progressToken;
       const context: McpContext = {
         sessionId: params.sessionId,
-        transport: params.transport
+        transport: params.transport,
+        signal,
+        sendProgress: async (progress, total, message) => {
+          if (progressToken === undefined || signal.aborted) return;
+          const withMessage = message !== undefined && this.clientSupports(params.sessionId, 'progressMessages');
+          await this.sendMessage({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, ...(withMessage ? { message } : {}) }
+          }, connectionId);
+        }
       };
 
       let playerState: any = null;
       let session: any = null;
 
-      switch (method) {        case 'initialize':          
-          session = stateService.createSession();
+      switch (method) {
+        case 'initialize': {
+          // A reconnecting client presents the resume token from its previous initialize result
+          const resumed = typeof params.resumeToken === 'string' && connectionId
+            ? stateService.resumeSession(params.resumeToken, connectionId)
+            : undefined;
+          // A new game can be given a seed to replay an earlier one
+          const seed = parseSeed(params.seed);
+          if (params.seed !== undefined && seed === undefined) {
+            throw new InvalidParamsError('Invalid seed: expected an integer between 0 and 4294967295', { seed: params.seed });
+          }
+          session = resumed ?? stateService.createSession(connectionId, seed);
+          params.sessionId = session.id;
 
-          // Store client capabilities for sampling support
-          this.clientCapabilities = params.capabilities || {};
+          // Agree on a protocol revision and remember what this client can do
+          const protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+          if (params.protocolVersion !== protocolVersion) {
+            logger.notice(`[MCP] Client requested protocol ${params.protocolVersion}; offering ${protocolVersion}`, { sessionId: session.id });
+          }
+          const capabilities: ClientCapabilities = params.capabilities || {};
+          this.protocols.set(session.id, { protocolVersion, capabilities, clientInfo: params.clientInfo });
           
-          // Set up sampling handler if client supports it
-          if (this.clientCapabilities.sampling) {
-            logToFile('[MCP] Client supports sampling - setting up handler', 'mcp-server.log');
-            const samplingHandler: SamplingHandler = async (request: CreateMessageRequest) => {
-              // Forward sampling request to client
-              const samplingRequest = {
-                jsonrpc: '2.0',
-                id: `sampling_${Date.now()}`,
-                method: 'sampling/createMessage',
-                params: request
-              };
-              
-              // This would be handled by the transport layer in a real implementation
-              // For now, we'll store the handler but actual sampling calls would need
-              // to be routed through the transport
-              throw new Error('Sampling requests must be routed through transport layer');
-            };
-            
-            samplingService.setSamplingHandler(samplingHandler);
+          // Route sampling through the client that asked for it
+          if (this.clientSupports(session.id, 'sampling')) {
+            logger.info('[MCP] Client supports sampling - setting up handler');
+            this.setSamplingTransport();
+          }
+          if (this.clientSupports(session.id, 'elicitation')) {
+            logger.info('[MCP] Client supports elicitation - setting up handler');
+            this.setElicitationTransport();
           }
 
           // console.log('[MCP] Processing initialize request');
           // Tools are registered automatically in toolsService constructor
-          playerState = stateService.getPlayerState(session.id);
+          playerState = stateService.getPlayerState(session.playerId);
           // Notification Issue https://github.com/orgs/modelcontextprotocol/discussions/76
           stateService.emit('TOOLS_CHANGED', { playerId: playerState?.player_id});
-          // According to the MCP protocol specification 2025-03-26
           return {
             jsonrpc: '2.0',
             id,
             result: {
-              protocolVersion: '2025-03-26',
+              protocolVersion,
               capabilities: {
                 tools: {
                   listChanged: true
@@ -243,7 +407,9 @@ export class McpServer extends EventEmitter {
                 resources: {
                   listChanged: true,
                   subscribe: true
-                }
+                },
+                ...(supportsFeature(protocolVersion, 'completions') ? { completions: {} } : {}),
+                logging: {}
               },
               serverInfo: {
                 name: this.options.name,
@@ -251,47 +417,64 @@ export class McpServer extends EventEmitter {
                 description: this.options.description || ''
               },
               session: {
-                id: session.id
+                id: session.id,
+                resumeToken: session.resumeToken,
+                seed: session.seed,
+                resumed: !!resumed
               },
               // Add instructions to help the client understand our server
               instructions: "This MUD server provides tools for exploring a text-based adventure. Use 'look' to examine your surroundings, 'move' to navigate between rooms, and 'pick_up' to collect items."
             }
-          };case 'tools/list':
+          };
+        }
+
+        case 'tools/list':
           // console.log('[MCP] Processing tools/list request');
           session = stateService.getSession(params.sessionId);
           const sessionPlayerId = session?.playerId;
           const availableTools = toolsService.getAvailableTools(sessionPlayerId);
+          const toolsPage = this.paginator.paginate(method, availableTools, tool => tool.name, params.cursor);
           const res = {
             jsonrpc: '2.0',
             id,
             result: {
-              tools: availableTools.map((tool) => ({
+              tools: toolsPage.items.map((tool) => ({
                 name: tool.name,
                 description: tool.description,
-                inputSchema: tool.inputSchema
-              }))
+                inputSchema: tool.inputSchema,
+                ...(tool.outputSchema && this.clientSupports(params.sessionId, 'structuredOutput') ? { outputSchema: tool.outputSchema } : {}),
+                ...(tool.annotations && this.clientSupports(params.sessionId, 'toolAnnotations') ? { annotations: tool.annotations } : {})
+              })),
+              ...(toolsPage.nextCursor ? { nextCursor: toolsPage.nextCursor } : {})
             }
           };
 
-          logToFile(`[Response] Tools list: ${JSON.stringify(res)}`, 'mcp-server.log');
+          logger.debug('[Response] Tools list', { sessionId: params.sessionId, data: res });
 
           return res;
 
         case 'tools/call': {
           // console.log(`[MCP] Processing tools/call request for ${params.name}`);
-          logToFile(`[Request] Tools call: ${JSON.stringify(params)}`, 'mcp-server.log');
+          logger.debug(`[Request] Tools call: ${params.name}`, { sessionId: params.sessionId, data: params });
           const { name, arguments: inputArgs = {} } = params as { name: string; arguments: Record<string, unknown> };
           session = stateService.getSession(params.sessionId);
-          playerState = stateService.getPlayerState(session.playerId);
+          playerState = session ? stateService.getPlayerState(session.playerId) : undefined;
           if (!playerState) {
-            throw new Error(`Session '${params.sessionId}' not found`);
+            throw new SessionNotFoundError(params.sessionId);
+          }
+          if (typeof name !== 'string' || !toolsService.hasTool(name)) {
+            throw new InvalidParamsError(`Unknown tool: ${name}`, { tool: name });
           }
           const availableTools = toolsService.getAvailableTools(playerState.player_id);
           const tool = availableTools.find(tool => tool.name === name);
           if (!tool) {
-            throw new Error(`Tool '${name}' not found`);
+            throw new ToolUnavailableError(name);
           }
           const toolCallResult = await toolsService.executeTool(name, inputArgs, context);
+          // Older revisions have no structured output; the text content says the same
+          if (!this.clientSupports(params.sessionId, 'structuredOutput')) {
+            delete toolCallResult.structuredContent;
+          }
           
           return {
             jsonrpc: '2.0',
@@ -306,19 +489,21 @@ export class McpServer extends EventEmitter {
           playerState = stateService.getPlayerState(session?.playerId);
           
           if (!playerState) {
-            throw new Error(`Session '${params.sessionId}' not found`);
+            throw new SessionNotFoundError(params.sessionId);
           }
           
           const availablePrompts = promptsService.getAvailablePrompts(playerState.player_id);
+          const promptsPage = this.paginator.paginate(method, availablePrompts, definition => definition.name, params.cursor);
           
           return {
             jsonrpc: '2.0',
             id,
-            result: {              prompts: availablePrompts.map(definition => ({
+            result: {              prompts: promptsPage.items.map(definition => ({
                 name: definition.name,
                 description: definition.description,
                 arguments: definition.arguments || []
-              }))
+              })),
+              ...(promptsPage.nextCursor ? { nextCursor: promptsPage.nextCursor } : {})
             }
           };
 
@@ -336,32 +521,54 @@ export class McpServer extends EventEmitter {
           };
         }
 
-        case 'resources/list':
+        case 'resources/list': {
           // console.log('[MCP] Processing resources/list request');
+          const definitions = Array.from(this.resources.values(), ({ definition }) => definition);
+          const resourcesPage = this.paginator.paginate(method, definitions, definition => definition.uriPattern, params.cursor);
           return {
             jsonrpc: '2.0',
             id,
             result: {
-              resources: Array.from(this.resources.values()).map(({ definition }) => ({
+              resources: resourcesPage.items.map(definition => ({
                 uri: definition.uriPattern,
                 name: definition.name || definition.uriPattern,
                 description: definition.description || ''
-              }))
+              })),
+              ...(resourcesPage.nextCursor ? { nextCursor: resourcesPage.nextCursor } : {})
             }
           };
+        }
+
+        case 'resources/templates/list': {
+          const definitions = this.resourceTemplates.map(({ definition }) => definition);
+          const templatesPage = this.paginator.paginate(method, definitions, definition => definition.uriPattern, params.cursor);
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+              resourceTemplates: templatesPage.items.map(definition => ({
+                uriTemplate: definition.uriPattern,
+                name: definition.name || definition.uriPattern,
+                description: definition.description || ''
+              })),
+              ...(templatesPage.nextCursor ? { nextCursor: templatesPage.nextCursor } : {})
+            }
+          };
+        }
 
         case 'resources/read': {
           // console.log(`[MCP] Processing resources/read request for ${params.uri}`);
           const { uri, parameters: inputParams = {} } = params as { uri: string; parameters: Record<string, unknown> };
-          const resource = this.resources.get(uri);
+          const resource = this.findResource(uri);
           if (!resource) {
-            throw new Error(`Resource '${uri}' not found`);
+            throw new ResourceNotFoundError(uri);
           }
-          
-          const validatedParams: Record<string, unknown> = {};
+
+          // Variables taken from the URI win over explicitly passed parameters
+          const validatedParams: Record<string, unknown> = { ...inputParams, ...resource.variables };
           if (resource.definition.parameters) {
             for (const [key, schema] of Object.entries(resource.definition.parameters)) {
-              validatedParams[key] = schema.parse(inputParams[key]);
+              validatedParams[key] = schema.parse(validatedParams[key]);
             }
           }
           
@@ -373,46 +580,103 @@ export class McpServer extends EventEmitter {
           };
         }
 
-        case 'ping':
-          // console.log('[MCP] Processing ping request');
+        case 'resources/subscribe': {
+          const { uri } = params as { uri: string };
+          if (!this.findResource(uri)) {
+            throw new ResourceNotFoundError(uri);
+          }
+
+          let subscribed = this.subscriptions.get(params.sessionId);
+          if (!subscribed) {
+            subscribed = new Set();
+            this.subscriptions.set(params.sessionId, subscribed);
+          }
+          subscribed.add(uri);
+          logger.info(`[Subscribe] Session ${params.sessionId} subscribed to ${uri}`, { sessionId: params.sessionId });
+
           return {
             jsonrpc: '2.0',
             id,
             result: {}
-          };        case 'notifications/initialized': {
-          // console.log('[MCP] Received initialized notification');
-          // Client is now ready, we can send our tool/prompt/resource notifications
-          this.publishInitialLists();
-          
-          // Set up sampling transport now that client is ready
-          if (this.clientCapabilities.sampling && this.transportSend) {
-            this.setSamplingTransport(this.transportSend);
+          };
+        }
+
+        case 'resources/unsubscribe': {
+          const { uri } = params as { uri: string };
+          this.subscriptions.get(params.sessionId)?.delete(uri);
+          logger.info(`[Subscribe] Session ${params.sessionId} unsubscribed from ${uri}`, { sessionId: params.sessionId });
+
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {}
+          };
+        }
+
+        case 'completion/complete': {
+          const { ref, argument, context: completionContext } = params as {
+            ref: CompletionReference;
+            argument: { name: string; value: string };
+            context?: { arguments?: Record<string, string> };
+          };
+          if (!ref || !['ref/prompt', 'ref/resource', 'ref/tool'].includes(ref.type) || typeof argument?.name !== 'string') {
+            throw new InvalidParamsError('Invalid completion request: ref and argument.name are required');
           }
-          
-          // No response needed for notifications
-          return null;
+
+          session = stateService.getSession(params.sessionId);
+          const completion = completionService.complete(
+            ref,
+            { name: argument.name, value: String(argument.value ?? '') },
+            session?.playerId,
+            completionContext
+          );
+
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: { completion }
+          };
         }
 
+        case 'logging/setLevel': {
+          const level = parseLogLevel(params.level);
+          if (!level || level !== params.level) {
+            throw new InvalidParamsError(`Invalid log level '${params.level}'`);
+          }
+
+          this.logLevels.set(params.sessionId, level);
+          logger.info(`[Logging] Session ${params.sessionId} set log level to ${level}`, { sessionId: params.sessionId });
+
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {}
+          };
+        }
+
+        case 'ping':
+          // console.log('[MCP] Processing ping request');
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {}
+          };
+
         case 'sampling/createMessage': {
           // This shouldn't happen - the server sends sampling requests, doesn't receive them
           // But we'll handle it gracefully
-          logToFile('[Warning] Received sampling/createMessage - this is unexpected for a server', 'mcp-server.log');
-          throw new Error('Servers send sampling requests, they do not receive them');
+          logger.warning('Received sampling/createMessage - this is unexpected for a server');
+          throw new MethodNotFoundError(method);
         }
 
         default:
-          // Check if this is a sampling response
-          if (method === 'sampling/createMessage' && id) {
-            // This is a response to our sampling request
-            this.handleSamplingResponse(request);
-            return null;
-          }
-          
           // console.log(`[MCP] Unknown method: ${method}`);
-          throw new Error(`Method '${method}' not found`);
+          throw new MethodNotFoundError(method);
       }
     } catch (error) {
-      logToFile(`[Error] Error handling request: ${error}`, 'mcp-server.log');
+      // Client mistakes are routine and only worth a debug record; anything else is a bug on our side
+      const clientError = toJsonRpcError(error).code !== ErrorCode.InternalError;
+      logger.log(clientError ? 'debug' : 'error', `Error handling request: ${error}`, { sessionId: logSessionId });
       throw error;
     }
   }
@@ -448,74 +712,97 @@ export class McpServer extends EventEmitter {
     // Delegate to the promptsService
     promptsService.removePrompt(name);
     // Notify clients of prompt list change
-    stateService.emit('PROMPTS_CHANGED', { playerId: 'all' });
+    stateService.emit('PROMPTS_CHANGED', { playerId: ALL_PLAYERS });
   }
 
   /**
-   * Set up a proper sampling handler that routes requests through the transport
+   * Whether the client behind a session can use a feature. Protocol features need a
+   * negotiated revision that includes them; sampling and elicitation also need the
+   * client to have declared the capability.
    */
-  setSamplingTransport(transportSend: MessageSender): void {
-    if (!this.clientCapabilities.sampling) {
-      logToFile('[Sampling] Client does not support sampling capability', 'mcp-server.log');
-      return;
+  clientSupports(sessionId: string | undefined, feature: ProtocolFeature | 'sampling'): boolean {
+    const protocol = sessionId ? this.protocols.get(sessionId) : undefined;
+    if (!protocol) return false;
+
+    switch (feature) {
+      case 'sampling':
+        return !!protocol.capabilities.sampling;
+      case 'elicitation':
+        return supportsFeature(protocol.protocolVersion, 'elicitation') && !!protocol.capabilities.elicitation;
+      default:
+        return supportsFeature(protocol.protocolVersion, feature);
     }
+  }
 
-    const samplingHandler: SamplingHandler = async (request: CreateMessageRequest): Promise<CreateMessageResult> => {
-      return new Promise(async (resolve, reject) => {
-        const requestId = `sampling_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        
-        logToFile(`[Sampling] Sending sampling request ${requestId}`, 'mcp-server.log');
-        
-        // Create the sampling request message
-        const samplingRequest = {
-          jsonrpc: '2.0',
-          id: requestId,
-          method: 'sampling/createMessage',
-          params: request
-        };
-
-        // Set up a one-time listener for the response
-        const responseHandler = (response: any) => {
-          if (response.id === requestId) {
-            this.off('sampling-response', responseHandler);
-            
-            if (response.error) {
-              logToFile(`[Sampling] Error in response ${requestId}: ${response.error.message}`, 'mcp-server.log');
-              reject(new Error(response.error.message));
-            } else {
-              logToFile(`[Sampling] Received response ${requestId}`, 'mcp-server.log');
-              resolve(response.result);
-            }
-          }
-        };
-
-        this.on('sampling-response', responseHandler);
-
-        // Set up timeout
-        const timeout = setTimeout(() => {
-          this.off('sampling-response', responseHandler);
-          reject(new Error('Sampling request timed out'));
-        }, 30000); // 30 second timeout
-
-        try {
-          await transportSend(samplingRequest);
-        } catch (error) {
-          this.off('sampling-response', responseHandler);
-          clearTimeout(timeout);
-          reject(error);
-        }
+  /**
+   * Whether we can ask a session's client for sampling or elicitation right now: it has to
+   * support it and be reachable, e.g. an HTTP client needs an open event stream
+   */
+  private canAsk(sessionId: string, feature: 'sampling' | 'elicitation'): boolean {
+    if (!this.clientSupports(sessionId, feature)) return false;
+
+    const connectionId = stateService.getSession(sessionId)?.connectionId;
+    return !!connectionId && (!this.canReach || this.canReach(connectionId));
+  }
+
+  /**
+   * Set up the sampling handler. Requests go to the connection of the session that
+   * needs the completion, and the client's response is matched by the request tracker.
+   * Sessions whose client did not declare sampling, or cannot be reached, cannot use it.
+   */
+  setSamplingTransport(): void {
+    const samplingHandler: SamplingHandler = (request: CreateMessageRequest, options = {}): Promise<CreateMessageResult> => {
+      const connectionId = options.sessionId ? stateService.getSession(options.sessionId)?.connectionId : undefined;
+      return this.sendRequest<CreateMessageResult>('sampling/createMessage', request, { connectionId, signal: options.signal });
+    };
+
+    samplingService.setSamplingHandler(samplingHandler, sessionId => this.canAsk(sessionId, 'sampling'));
+    logger.info('[Sampling] Transport handler configured');
+  }
+
+  /**
+   * Set up the elicitation handler. Like sampling, questions go to the connection of the
+   * session that asks them, and only to clients that support elicitation and can be reached.
+   */
+  setElicitationTransport(): void {
+    const elicitationHandler: ElicitationHandler = (request: ElicitRequest, options = {}): Promise<ElicitResult> => {
+      const connectionId = options.sessionId ? stateService.getSession(options.sessionId)?.connectionId : undefined;
+      // The player may take a while to answer, so wait longer than for other requests
+      return this.sendRequest<ElicitResult>('elicitation/create', request, {
+        connectionId,
+        signal: options.signal,
+        timeout: systemConfig.transport.elicitationTimeout
       });
     };
 
-    samplingService.setSamplingHandler(samplingHandler);
-    logToFile('[Sampling] Transport handler configured', 'mcp-server.log');
+    elicitationService.setElicitationHandler(elicitationHandler, sessionId => this.canAsk(sessionId, 'elicitation'));
+    logger.info('[Elicitation] Transport handler configured');
+  }
+
+  /**
+   * Send a request to a client and wait for its response
+   * @param method The request method, e.g. sampling/createMessage
+   * @param params The request params
+   * @param options Target connection, timeout and abort signal
+   */
+  sendRequest<T = unknown>(method: string, params: unknown, options: OutboundRequestOptions = {}): Promise<T> {
+    return this.requests.request<T>(method, params, options);
   }
 
   /**
-   * Handle a sampling response from the client
+   * Handle a client's response to one of our requests
+   * @returns false if the response does not match a pending request
    */
-  handleSamplingResponse(response: any): void {
-    this.emit('sampling-response', response);
+  handleResponse(response: any, connectionId?: string): boolean {
+    return this.requests.handleResponse(response, connectionId);
+  }
+
+  /**
+   * Give up on requests sent to a connection that has closed
+   */
+  handleDisconnect(connectionId: string): void {
+    this.requests.cancelForConnection(connectionId, 'Connection closed');
+    this.notifications.forget(connectionId);
   }
 
   /**
@@ -525,17 +812,43 @@ export class McpServer extends EventEmitter {
     return samplingService;
   }
 
+  /**
+   * Register a resource. A uriPattern with {variables} registers a resource template;
+   * the variables matched from a read URI are passed to the handler's params.
+   */
   registerResource(definition: ResourceDefinition, handler: ResourceHandler): void {
     if (!definition.uriPattern && !definition.name) {
       throw new Error('Resource must have either uriPattern or name defined');
     }
+    if (definition.uriPattern && UriTemplate.isTemplate(definition.uriPattern)) {
+      this.resourceTemplates.push({ template: new UriTemplate(definition.uriPattern), definition, handler });
+      return;
+    }
     const resourceKey = definition.uriPattern || definition.name as string;
     // console.log(`[MCP] Registering resource: ${resourceKey}`);
     this.resources.set(resourceKey, { definition, handler });
   }
 
+  /**
+   * Resolve a URI to a concrete resource, or else to the first template that matches it
+   */
+  private findResource(uri: string): { definition: ResourceDefinition; handler: ResourceHandler; variables: Record<string, string> } | undefined {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return { ...resource, variables: {} };
+    }
+
+    for (const { template, definition, handler } of this.resourceTemplates) {
+      const variables = template.match(uri);
+      if (variables) {
+        return { definition, handler, variables };
+      }
+    }
+    return undefined;
+  }
+
   close(): void {
-    logToFile('[Close] Closing server', 'mcp-server.log');
+    logger.info('[Close] Closing server');
     // console.log('[MCP] Closing server');
   }
 }
\ No newline at end of file
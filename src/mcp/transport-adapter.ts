@@ -1,10 +1,14 @@
 import { EventEmitter } from 'events';
 import type { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import type { McpRequest, McpResponse, McpNotification } from '../types/mcp.js';
+import type { McpRequest, McpResponse, McpNotification, McpTransport, TransportMessageHandler } from '../types/mcp.js';
 import type { JSONRPCMessage, JSONRPCRequest, JSONRPCError, JSONRPCResponse, JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
-import { initializeLogging, logToFile } from '../config/system.js';
+import { initializeLogging } from '../config/system.js';
+import { logger } from '../config/logger.js';
 
-export class TransportAdapter extends EventEmitter {
+// stdio carries exactly one client connection
+export const STDIO_CONNECTION_ID = 'stdio';
+
+export class TransportAdapter extends EventEmitter implements McpTransport {
   private sdkTransport: StdioServerTransport;
   private messageBuffer: string = '';
   private sessionId?: string;
@@ -18,12 +22,17 @@ export class TransportAdapter extends EventEmitter {
 
     // Set up data handler for incoming chunks
     process.stdin.on('data', (chunk: Buffer) => {
-      logToFile(`[Data] Received chunk: ${chunk.toString()}`, 'transport-adapter.log');
+      logger.debug('[Data] Received chunk', { file: 'transport-adapter.log', data: chunk.toString() });
       this.handleData(chunk);
     });
 
+    process.stdin.on('end', () => {
+      logger.info('[End] stdin closed', { file: 'transport-adapter.log' });
+      this.emit('disconnect', STDIO_CONNECTION_ID);
+    });
+
     process.stdin.on('endpoint', (message: string) => {
-      logToFile(`[Endpoint] ${message}`, 'transport-adapter.log');
+      logger.info(`[Endpoint] ${message}`, { file: 'transport-adapter.log' });
     })
   }
 
@@ -48,31 +57,58 @@ export class TransportAdapter extends EventEmitter {
       if (line.trim()) {
         try {
           const message = JSON.parse(line);
-          this.emit('message', message);
+          this.emit('message', message, STDIO_CONNECTION_ID);
         } catch (e) {
-          logToFile(`[Error] Failed to parse message: ${line}, Error: ${e}`, 'transport-adapter.log');
+          logger.error(`Failed to parse message: ${e}`, { file: 'transport-adapter.log', data: line });
         }
       }
     }
   }
 
-  public onMessage(handler: (message: McpRequest | McpNotification) => void): void {
+  public onMessage(handler: TransportMessageHandler): void {
     this.on('message', handler);
   }
 
+  public onDisconnect(handler: (connectionId: string) => void): void {
+    this.on('disconnect', handler);
+  }
+
+  public canSendRequests(connectionId: string): boolean {
+    return connectionId === STDIO_CONNECTION_ID;
+  }
+
   public onClose(handler: () => void): void {
     this.on('close', handler);
 
     process.on('exit', () => {
-      logToFile('[Exit] Process exit detected', 'transport-adapter.log');
+      logger.info('[Exit] Process exit detected', { file: 'transport-adapter.log' });
       this.emit('close');
     });
   }
 
-  public async send(message: McpResponse | McpNotification): Promise<void> {
-    logToFile(`[Send] Sending message: ${JSON.stringify(message)}`, 'transport-adapter.log');
+  public async send(message: McpRequest | McpResponse | McpNotification): Promise<void> {
+    logger.debug('[Send] Sending message', { file: 'transport-adapter.log', data: message });
     
-    if ('id' in message) {
+    if ('method' in message) {
+      if ('id' in message) {
+        // It's a server-initiated request (sampling, elicitation), forwarded as is
+        const request: JSONRPCRequest = {
+          jsonrpc: "2.0",
+          id: message.id,
+          method: message.method,
+          params: message.params
+        };
+        return this.sdkTransport.send(request);
+      }
+
+      // It's a notification
+      const notification: JSONRPCNotification = {
+        jsonrpc: "2.0",
+        method: message.method,
+        params: message.params
+      };
+      return this.sdkTransport.send(notification);
+    } else {
       // It's a response
       if ('error' in message) {
         // Error response
@@ -97,29 +133,21 @@ export class TransportAdapter extends EventEmitter {
         };
         return this.sdkTransport.send(successResponse);
       }
-    } else {
-      // It's a notification
-      const notification: JSONRPCNotification = {
-        jsonrpc: "2.0",
-        method: message.method,
-        params: message.params
-      };
-      return this.sdkTransport.send(notification);
     }
   }
 
   public async start(): Promise<void> {
-    logToFile('[Start] Starting transport', 'transport-adapter.log');
+    logger.info('[Start] Starting transport', { file: 'transport-adapter.log' });
     try {
       return this.sdkTransport.start();
     } catch (error) {
-      logToFile(`[Error] Failed to start transport: ${error}`, 'transport-adapter.log');
+      logger.error(`Failed to start transport: ${error}`, { file: 'transport-adapter.log' });
       throw error;
     }
   }
 
   public async close(): Promise<void> {
-    logToFile('[Close] Closing transport', 'transport-adapter.log');
+    logger.info('[Close] Closing transport', { file: 'transport-adapter.log' });
     await this.sdkTransport.close();
     this.emit('close');
   }
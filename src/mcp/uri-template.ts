@@ -0,0 +1,103 @@
+/**
+ * URI Templates (RFC 6570)
+ *
+ * Supports the expressions resource URIs need: simple `{var}` (one path segment),
+ * reserved `{+var}` (may span segments) and form-style query `{?var1,var2}`.
+ * Templates are matched against a concrete URI to extract the values of their
+ * variables.
+ */
+
+type Operator = '' | '+' | '?';
+
+interface Expression {
+  operator: Operator;
+  names: string[];
+}
+
+const EXPRESSION = /\{([+?]?)([A-Za-z0-9_]+(?:,[A-Za-z0-9_]+)*)\}/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export class UriTemplate {
+  readonly template: string;
+  readonly variableNames: string[];
+  private parts: Array<string | Expression> = [];
+  private pattern: RegExp;
+
+  /**
+   * Whether a string contains any template expressions
+   */
+  static isTemplate(uri: string): boolean {
+    return new RegExp(EXPRESSION.source).test(uri);
+  }
+
+  constructor(template: string) {
+    this.template = template;
+
+    let lastIndex = 0;
+    for (const match of template.matchAll(EXPRESSION)) {
+      if (match.index! > lastIndex) {
+        this.parts.push(template.slice(lastIndex, match.index));
+      }
+      this.parts.push({ operator: match[1] as Operator, names: match[2].split(',') });
+      lastIndex = match.index! + match[0].length;
+    }
+    if (lastIndex < template.length) {
+      this.parts.push(template.slice(lastIndex));
+    }
+
+    this.variableNames = this.parts.flatMap(part => typeof part === 'string' ? [] : part.names);
+    this.pattern = new RegExp(`^${this.parts.map(part => {
+      if (typeof part === 'string') return escapeRegExp(part);
+      if (part.operator === '?') return '(\\?[^#]*)?';
+      return part.operator === '+' ? '(.+?)' : '([^/?#]+)';
+    }).join('')}$`);
+  }
+
+  /**
+   * Match a concrete URI against the template
+   * @returns The extracted variables, or undefined if the URI does not match
+   */
+  match(uri: string): Record<string, string> | undefined {
+    const match = this.pattern.exec(uri);
+    if (!match) return undefined;
+
+    const variables: Record<string, string> = {};
+    let group = 1;
+    for (const part of this.parts) {
+      if (typeof part === 'string') continue;
+
+      const value = match[group++];
+      if (part.operator === '?') {
+        const query = new URLSearchParams(value ? value.slice(1) : '');
+        for (const name of part.names) {
+          const queryValue = query.get(name);
+          if (queryValue !== null) variables[name] = queryValue;
+        }
+      } else {
+        // A list expression such as {x,y} matches comma-separated values
+        const values = part.names.length > 1 ? value.split(',') : [value];
+        part.names.forEach((name, index) => {
+          if (values[index] !== undefined) {
+            variables[name] = part.operator === '+' ? values[index] : decode(values[index]);
+          }
+        });
+      }
+    }
+    return variables;
+  }
+
+  toString(): string {
+    return this.template;
+  }
+}
@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import type { McpRequest, McpResponse, McpNotification, McpTransport, TransportMessageHandler } from '../types/mcp.js';
+import { initializeLogging, systemConfig } from '../config/system.js';
+import { logger } from '../config/logger.js';
+
+const LOG_FILE = 'websocket-transport.log';
+
+interface SocketConnection {
+  id: string;
+  socket: WebSocket;
+  alive: boolean;
+}
+
+/**
+ * WebSocket transport
+ *
+ * Every socket is a separate client connection with its own session. Messages use the
+ * same newline-delimited JSON-RPC framing as the stdio TransportAdapter, so a frame may
+ * carry one or more messages and every outgoing message is terminated by a newline.
+ */
+export class WebSocketTransport extends EventEmitter implements McpTransport {
+  private wss?: WebSocketServer;
+  private connections: Map<string, SocketConnection> = new Map();
+  private heartbeat?: NodeJS.Timeout;
+  private options: typeof systemConfig.transport.websocket;
+
+  constructor(options: Partial<typeof systemConfig.transport.websocket> = {}) {
+    super();
+    this.options = { ...systemConfig.transport.websocket, ...options };
+
+    // Initialize logging system
+    initializeLogging();
+  }
+
+  public onMessage(handler: TransportMessageHandler): void {
+    this.on('message', handler);
+  }
+
+  public onClose(handler: () => void): void {
+    this.on('close', handler);
+  }
+
+  public onDisconnect(handler: (connectionId: string) => void): void {
+    this.on('disconnect', handler);
+  }
+
+  public canSendRequests(connectionId: string): boolean {
+    return this.connections.get(connectionId)?.socket.readyState === WebSocket.OPEN;
+  }
+
+  public async send(message: McpRequest | McpResponse | McpNotification, connectionId?: string): Promise<void> {
+    logger.debug(`[Send] ${connectionId ?? 'broadcast'}`, { file: LOG_FILE, data: message });
+
+    const targets = connectionId
+      ? [this.connections.get(connectionId)].filter((connection): connection is SocketConnection => !!connection)
+      : Array.from(this.connections.values());
+
+    if (connectionId && targets.length === 0) {
+      logger.warning(`Connection ${connectionId} is gone, dropping message`, { file: LOG_FILE });
+      return;
+    }
+
+    const frame = `${JSON.stringify(message)}\n`;
+    await Promise.all(targets
+      .filter(connection => connection.socket.readyState === WebSocket.OPEN)
+      .map(connection => new Promise<void>((resolve, reject) => {
+        connection.socket.send(frame, error => error ? reject(error) : resolve());
+      })));
+  }
+
+  public async start(): Promise<void> {
+    const { host, port, path } = this.options;
+    logger.info(`[Start] Listening on ws://${host}:${port}${path}`, { file: LOG_FILE });
+
+    await new Promise<void>((resolve, reject) => {
+      const wss = new WebSocketServer({ host, port, path }, () => resolve());
+      wss.once('error', reject);
+      wss.on('connection', socket => this.handleConnection(socket));
+      this.wss = wss;
+    });
+
+    // Drop sockets that stop answering pings
+    this.heartbeat = setInterval(() => {
+      for (const connection of this.connections.values()) {
+        if (!connection.alive) {
+          logger.warning(`[Heartbeat] Terminating unresponsive connection ${connection.id}`, { file: LOG_FILE });
+          connection.socket.terminate();
+          continue;
+        }
+        connection.alive = false;
+        connection.socket.ping();
+      }
+    }, this.options.heartbeatInterval);
+  }
+
+  public async close(): Promise<void> {
+    logger.info('[Close] Closing transport', { file: LOG_FILE });
+
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+
+    for (const connection of this.connections.values()) {
+      connection.socket.close(1001, 'Server shutting down');
+    }
+    this.connections.clear();
+
+    if (this.wss) {
+      await new Promise<void>(resolve => this.wss!.close(() => resolve()));
+      this.wss = undefined;
+    }
+    this.emit('close');
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const connection: SocketConnection = { id: randomUUID(), socket, alive: true };
+    this.connections.set(connection.id, connection);
+    logger.info(`[Connect] Connection ${connection.id} opened`, { file: LOG_FILE });
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+
+    socket.on('message', (data: RawData) => {
+      this.handleData(connection, data.toString());
+    });
+
+    socket.on('close', () => {
+      this.connections.delete(connection.id);
+      logger.info(`[Disconnect] Connection ${connection.id} closed`, { file: LOG_FILE });
+      this.emit('disconnect', connection.id);
+    });
+
+    socket.on('error', error => {
+      logger.error(`Connection ${connection.id}: ${error}`, { file: LOG_FILE });
+    });
+  }
+
+  private handleData(connection: SocketConnection, data: string): void {
+    // Each frame holds one or more complete newline-delimited messages
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        const message = JSON.parse(line);
+        logger.debug(`[Receive] ${connection.id}`, { file: LOG_FILE, data: line });
+        this.emit('message', message, connection.id);
+      } catch (e) {
+        logger.error(`Failed to parse message: ${e}`, { file: LOG_FILE, data: line });
+      }
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import stateService from './stateService.js';
+import { monsters } from '../config/world.js';
+import { logger } from '../config/logger.js';
+import { effectiveStats } from '../game/items.js';
+
+// Chance that an attempt to flee succeeds
+const FLEE_CHANCE = 0.5;
+
+// How far a player's hit can fall short of or exceed their attack stat
+const ATTACK_SPREAD = 2;
+
+export type CombatAction = 'attack' | 'defend' | 'flee';
+
+export type CombatOutcome = 'ongoing' | 'victory' | 'defeat' | 'fled';
+
+/**
+ * What happened in one round of a fight
+ */
+export interface CombatRound {
+  action: CombatAction;
+  monsterId: string;
+  round: number;
+  damageDealt: number;    // To the monster
+  damageTaken: number;    // By the player
+  playerHp: number;       // After the round; back to full after a defeat
+  monsterHp: number;
+  outcome: CombatOutcome;
+  fledTo?: string;        // Room the player escaped to
+}
+
+/**
+ * Combat Service
+ *
+ * Turn-based fights between a player and one monster in their room. Each round the
+ * player attacks, defends or tries to flee, and then the monster strikes back with its
+ * damage, reduced by the player's defense (and halved again when defending). Equipped
+ * weapons and armor add to the player's attack and defense. A monster
+ * at zero health is defeated; a player at zero health dies and respawns at the entrance.
+ */
+class CombatService {
+  /**
+   * The monster the player is fighting, if any. A fight ends by itself once the
+   * monster is gone or the player has left its room.
+   */
+  getOpponent(playerId: string): string | undefined {
+    const playerState = stateService.getPlayerState(playerId);
+    const combat = playerState?.combat;
+    if (!combat) return undefined;
+
+    if (combat.roomId !== playerState.room || stateService.getMonsterHealth(playerId, combat.roomId, combat.monsterId) === undefined) {
+      stateService.setCombat(playerId, undefined);
+      return undefined;
+    }
+    return combat.monsterId;
+  }
+
+  /**
+   * Attack a monster in the player's room, starting a fight with it if there is none
+   * @returns undefined if the monster is not in the room or the player is fighting another one
+   */
+  attack(playerId: string, monsterId: string): CombatRound | undefined {
+    const playerState = stateService.getPlayerState(playerId);
+    if (!playerState) return undefined;
+
+    const opponent = this.getOpponent(playerId);
+    if (opponent && opponent !== monsterId) return undefined;
+    if (!opponent) {
+      if (stateService.getMonsterHealth(playerId, playerState.room, monsterId) === undefined) return undefined;
+      logger.info(`[Combat] ${playerId} attacks ${monsterId} in ${playerState.room}`, { playerId });
+      stateService.setCombat(playerId, { monsterId, roomId: playerState.room, round: 0 });
+    }
+
+    return this.fightRound(playerId, 'attack');
+  }
+
+  /**
+   * Brace for the monster's next strike, taking half damage
+   * @returns undefined if the player is not fighting
+   */
+  defend(playerId: string): CombatRound | undefined {
+    return this.getOpponent(playerId) ? this.fightRound(playerId, 'defend') : undefined;
+  }
+
+  /**
+   * Try to escape through a random exit; the monster gets a free strike if it fails
+   * @returns undefined if the player is not fighting
+   */
+  flee(playerId: string): CombatRound | undefined {
+    return this.getOpponent(playerId) ? this.fightRound(playerId, 'flee') : undefined;
+  }
+
+  private fightRound(playerId: string, action: CombatAction): CombatRound {
+    const playerState = stateService.getPlayerState(playerId)!;
+    const combat = playerState.combat!;
+    const { monsterId, roomId } = combat;
+    const monster = monsters[monsterId];
+    const round = combat.round + 1;
+    const random = stateService.getRandom(playerId);
+    const stats = effectiveStats(playerState);
+
+    let damageDealt = 0;
+    let monsterHp = stateService.getMonsterHealth(playerId, roomId, monsterId)!;
+    const result = (outcome: CombatOutcome, damageTaken: number, fledTo?: string): CombatRound => ({
+      action, monsterId, round, damageDealt, damageTaken, playerHp: playerState.hp, monsterHp, outcome, fledTo
+    });
+
+    if (action === 'attack') {
+      damageDealt = Math.max(1, random.int(stats.attack - ATTACK_SPREAD, stats.attack + ATTACK_SPREAD));
+      monsterHp = stateService.damageMonster(playerId, roomId, monsterId, damageDealt) ?? 0;
+      if (monsterHp === 0) {
+        logger.info(`[Combat] ${playerId} defeated ${monsterId} in round ${round}`, { playerId });
+        stateService.setCombat(playerId, undefined);
+        // Refresh monster presence (and with it the available tools) for the room
+        stateService.updatePlayerRoom(playerId, roomId);
+        return result('victory', 0);
+      }
+    }
+
+    if (action === 'flee' && random.chance(FLEE_CHANCE)) {
+      // Locked exits are no way out
+      const room = stateService.getWorld(playerId).rooms[roomId];
+      const exits = Object.entries(room?.exits ?? {})
+        .filter(([direction]) => !room?.locks?.[direction])
+        .map(([, targetId]) => targetId);
+      if (exits.length > 0) {
+        const destination = random.pick(exits);
+        stateService.setCombat(playerId, undefined);
+        stateService.updatePlayerRoom(playerId, destination);
+        return result('fled', 0, destination);
+      }
+    }
+
+    // The monster strikes back
+    const strength = action === 'defend' ? Math.floor(monster.damage / 2) : monster.damage;
+    const damageTaken = Math.max(0, strength - stats.defense);
+    if (stateService.damagePlayer(playerId, damageTaken) === 0) {
+      logger.info(`[Combat] ${playerId} was killed by ${monsterId} in round ${round}`, { playerId });
+      stateService.respawnPlayer(playerId);
+      return result('defeat', damageTaken);
+    }
+
+    stateService.setCombat(playerId, { ...combat, round });
+    return result('ongoing', damageTaken);
+  }
+}
+
+export default new CombatService();
@@ -0,0 +1,117 @@
+import type { Completer, CompletionReference, CompletionResult } from '../types/mcp.js';
+import stateService from './stateService.js';
+import { items, monsters } from '../config/world.js';
+import { canSee, equipmentSlotOf, isEquipped, isUsable } from '../game/items.js';
+
+// The specification caps a completion response at 100 values
+const MAX_COMPLETION_VALUES = 100;
+
+// Things the talk tool answers to besides the monsters in the room
+const AMBIENT_TALK_TARGETS = ['spirit', 'ghost', 'echo', 'walls'];
+
+/**
+ * Completion Service
+ *
+ * Suggests argument values for tools, prompts and resource templates from the
+ * requesting player's live game state
+ */
+class CompletionService {
+  private completers: Map<string, Completer> = new Map();
+
+  constructor() {
+    this.registerDefaultCompleters();
+  }
+
+  /**
+   * Register a completer for one argument of a tool, prompt or resource template
+   */
+  registerCompleter(ref: CompletionReference, argument: string, completer: Completer): void {
+    this.completers.set(this.key(ref, argument), completer);
+  }
+
+  /**
+   * Complete an argument value. Candidates that start with the typed value come first,
+   * followed by those that merely contain it.
+   */
+  complete(
+    ref: CompletionReference,
+    argument: { name: string; value: string },
+    playerId: string | undefined,
+    context: { arguments?: Record<string, string> } = {}
+  ): CompletionResult {
+    const completer = this.completers.get(this.key(ref, argument.name));
+    if (!completer) {
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    const typed = argument.value.toLowerCase();
+    const candidates = Array.from(new Set(completer(argument.value, playerId, context)));
+    const matches = [
+      ...candidates.filter(candidate => candidate.toLowerCase().startsWith(typed)),
+      ...candidates.filter(candidate => !candidate.toLowerCase().startsWith(typed) && candidate.toLowerCase().includes(typed))
+    ];
+
+    return {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES
+    };
+  }
+
+  private key(ref: CompletionReference, argument: string): string {
+    return `${ref.type}:${ref.type === 'ref/resource' ? ref.uri : ref.name}:${argument}`;
+  }
+
+  private getCurrentRoom(playerId: string | undefined) {
+    const playerState = playerId ? stateService.getPlayerState(playerId) : undefined;
+    return playerState ? stateService.getWorld(playerId).rooms[playerState.room] : undefined;
+  }
+
+  // Items in a dark room stay hidden until the player equips a light
+  private getVisibleItems(playerId: string | undefined): string[] {
+    const playerState = playerId ? stateService.getPlayerState(playerId) : undefined;
+    const room = this.getCurrentRoom(playerId);
+    return playerState && room && canSee(playerState, room) ? room.items : [];
+  }
+
+  private getInventory(playerId: string | undefined): string[] {
+    return (playerId ? stateService.getPlayerState(playerId)?.inventory : undefined) ?? [];
+  }
+
+  private registerDefaultCompleters(): void {
+    // Tools match items and monsters by display name, so suggest names rather than ids
+    this.registerCompleter({ type: 'ref/tool', name: 'take' }, 'item', (value, playerId) =>
+      this.getVisibleItems(playerId).map(itemId => items[itemId]?.name ?? itemId));
+
+    this.registerCompleter({ type: 'ref/tool', name: 'use' }, 'item', (value, playerId) =>
+      this.getInventory(playerId).filter(isUsable).map(itemId => items[itemId]?.name ?? itemId));
+
+    this.registerCompleter({ type: 'ref/tool', name: 'equip' }, 'item', (value, playerId) => {
+      const playerState = playerId ? stateService.getPlayerState(playerId) : undefined;
+      return (playerState?.inventory ?? [])
+        .filter(itemId => equipmentSlotOf(itemId) && !isEquipped(playerState!, itemId))
+        .map(itemId => items[itemId]?.name ?? itemId);
+    });
+
+    this.registerCompleter({ type: 'ref/tool', name: 'unequip' }, 'item', (value, playerId) => {
+      const playerState = playerId ? stateService.getPlayerState(playerId) : undefined;
+      return Object.values(playerState?.equipment ?? {}).map(itemId => items[itemId!]?.name ?? itemId!);
+    });
+
+    this.registerCompleter({ type: 'ref/tool', name: 'battle' }, 'monster', (value, playerId) =>
+      (this.getCurrentRoom(playerId)?.monsters ?? []).map(monsterId => monsters[monsterId]?.name ?? monsterId));
+
+    this.registerCompleter({ type: 'ref/tool', name: 'talk' }, 'target', (value, playerId) => [
+      ...(this.getCurrentRoom(playerId)?.monsters ?? []).map(monsterId => monsters[monsterId]?.name ?? monsterId),
+      ...AMBIENT_TALK_TARGETS
+    ]);
+
+    this.registerCompleter({ type: 'ref/prompt', name: 'room_description' }, 'detail_level', () =>
+      ['brief', 'normal', 'detailed']);
+
+    this.registerCompleter({ type: 'ref/resource', uri: 'mud://room/{roomId}' }, 'roomId', (value, playerId) =>
+      Object.keys(stateService.getWorld(playerId).rooms));
+  }
+}
+
+export default new CompletionService();
@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import type { ElicitRequest, ElicitResult, ElicitationHandler } from '../types/mcp.js';
+import { logger } from '../config/logger.js';
+
+export interface ElicitOptions {
+  sessionId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Elicitation Service
+ *
+ * Asks the player structured follow-up questions through the client, such as which of
+ * several items they meant or whether they really want to start a fight. Only available
+ * when the client declared the elicitation capability.
+ */
+export class ElicitationService extends EventEmitter {
+  private elicitationHandler?: ElicitationHandler;
+  private supportsSession?: (sessionId: string) => boolean;
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Set the handler that sends elicitation requests to the client
+   * @param supportsSession Tells whether a session's client can answer elicitation requests
+   */
+  setElicitationHandler(handler: ElicitationHandler, supportsSession?: (sessionId: string) => boolean): void {
+    this.elicitationHandler = handler;
+    this.supportsSession = supportsSession;
+    logger.info('[Elicitation] Handler registered');
+  }
+
+  /**
+   * Check if elicitation is available, for a particular session's client if one is given
+   */
+  isAvailable(sessionId?: string): boolean {
+    if (!this.elicitationHandler) return false;
+    return !sessionId || !this.supportsSession || this.supportsSession(sessionId);
+  }
+
+  /**
+   * Ask the client for input matching a schema
+   */
+  async elicit(request: ElicitRequest, options: ElicitOptions = {}): Promise<ElicitResult> {
+    if (!this.elicitationHandler || !this.isAvailable(options.sessionId)) {
+      throw new Error('Elicitation is not available. Client must support elicitation capability.');
+    }
+
+    logger.info(`[Elicitation] Asking: ${request.message}`, { sessionId: options.sessionId });
+    const result = await this.elicitationHandler(request, options);
+    logger.info(`[Elicitation] Player chose to ${result.action}`, { sessionId: options.sessionId, data: result.content });
+    return result;
+  }
+
+  /**
+   * Ask the player to pick one of several options
+   * @returns The chosen option, or undefined if they declined, or elicitation is unavailable or failed
+   */
+  async choose(message: string, field: string, choices: string[], options: ElicitOptions = {}): Promise<string | undefined> {
+    if (!this.isAvailable(options.sessionId) || choices.length === 0) return undefined;
+
+    const result = await this.ask({
+      message,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          [field]: { type: 'string', title: field.charAt(0).toUpperCase() + field.slice(1), enum: choices }
+        },
+        required: [field]
+      }
+    }, options);
+
+    const choice = result?.action === 'accept' ? result.content?.[field] : undefined;
+    return typeof choice === 'string' && choices.includes(choice) ? choice : undefined;
+  }
+
+  /**
+   * Ask the player to confirm an action
+   * @returns true if the player confirmed, or if their client cannot be asked at all; false if they
+   * declined, or the question failed or went unanswered
+   */
+  async confirm(message: string, options: ElicitOptions = {}): Promise<boolean> {
+    if (!this.isAvailable(options.sessionId)) return true;
+
+    const result = await this.ask({
+      message,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: { type: 'boolean', title: 'Confirm', default: false }
+        },
+        required: ['confirm']
+      }
+    }, options);
+
+    // Without an answer there is no consent
+    if (!result) return false;
+    return result.action === 'accept' && result.content?.confirm === true;
+  }
+
+  // Errors other than cancellation are logged and reported as no answer
+  private async ask(request: ElicitRequest, options: ElicitOptions): Promise<ElicitResult | undefined> {
+    try {
+      return await this.elicit(request, options);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      logger.warning(`[Elicitation] Error: ${error}`, { sessionId: options.sessionId });
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+const elicitationService = new ElicitationService();
+export default elicitationService;
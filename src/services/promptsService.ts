@@ -3,7 +3,9 @@ import { z } from 'zod';
 import type { Prompt, PromptResponse } from '../types/index.js';
 import type { McpContext } from '../types/mcp.js';
 import stateService from './stateService.js';
+import { InvalidParamsError } from '../mcp/errors.js';
 import { items, monsters, quests } from '../config/world.js';
+import { canSee, isEquipped } from '../game/items.js';
 
 /**
  * Prompts Service
@@ -51,7 +53,7 @@ class PromptsService extends EventEmitter {
       return [];
     }
     
-    const world = stateService.getWorld();
+    const world = stateService.getWorld(playerId);
     const room = world.rooms[playerState.room];
 
     // Filter prompts based on player state
@@ -93,12 +95,14 @@ class PromptsService extends EventEmitter {
   async executePrompt(name: string, params: Record<string, unknown>, context: McpContext): Promise<PromptResponse> {
     const prompt = this.prompts.get(name);
     if (!prompt) {
-      return {
-        messages: [{ 
-          role: 'assistant', 
-          content: { type: 'text', text: `Prompt '${name}' not found.` }
-        }]
-      };
+      throw new InvalidParamsError(`Invalid prompt name: ${name}`, { prompt: name });
+    }
+
+    const missing = (prompt.definition.arguments ?? [])
+      .filter(argument => argument.required && params[argument.name] === undefined)
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new InvalidParamsError(`Missing required arguments for prompt '${name}': ${missing.join(', ')}`, { prompt: name, missing });
     }
     
     try {
@@ -161,7 +165,7 @@ class PromptsService extends EventEmitter {
           };
         }
 
-        const world = stateService.getWorld();
+        const world = stateService.getWorld(session.playerId);
         const room = world.rooms[playerState.room];
         if (!room) {
           return {
@@ -178,7 +182,9 @@ class PromptsService extends EventEmitter {
         
         if (detail_level === 'detailed') {
           description += `\n\nThis room has ${Object.keys(room.exits).length} exits.`;
-          if (room.items.length > 0) {
+          if (!canSee(playerState, room)) {
+            description += ` It is too dark to make out what lies around.`;
+          } else if (room.items.length > 0) {
             description += ` There are ${room.items.length} items here.`;
           }
           if (room.monsters.length > 0) {
@@ -275,7 +281,8 @@ class PromptsService extends EventEmitter {
 
         const inventoryDetails = playerState.inventory.map(itemId => {
           const item = items[itemId];
-          return item ? `${item.name}: ${item.description}` : itemId;
+          const equipped = isEquipped(playerState, itemId) ? ' (equipped)' : '';
+          return item ? `${item.name}${equipped}: ${item.description}` : itemId;
         }).join('\n');
 
         return {
@@ -328,7 +335,7 @@ class PromptsService extends EventEmitter {
           };
         }
 
-        const world = stateService.getWorld();
+        const world = stateService.getWorld(session.playerId);
         const room = world.rooms[playerState.room];
         
         if (!room || !room.hasQuest || playerState.hasQuest) {
@@ -402,7 +409,7 @@ class PromptsService extends EventEmitter {
           };
         }
 
-        const world = stateService.getWorld();
+        const world = stateService.getWorld(session.playerId);
         const room = world.rooms[playerState.room];
         
         if (!room || room.monsters.length === 0) {
@@ -430,7 +437,7 @@ class PromptsService extends EventEmitter {
               role: 'assistant', 
               content: { 
                 type: 'text', 
-                text: `Combat Situation!\n\nYou are facing: ${monsterNames}\n\nPrepare for battle! You can engage in combat or try to find another way around. Choose your strategy carefully.` 
+                text: `Combat Situation!\n\nYou are facing: ${monsterNames}\n\nYou have ${playerState.hp}/${playerState.maxHp} HP.\n\nPrepare for battle! Each round you can attack with battle, defend to halve the damage you take, or flee through a random exit. Choose your strategy carefully.` 
               }
             }
           ]
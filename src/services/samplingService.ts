@@ -6,10 +6,11 @@ import type {
   SamplingMessage,
   ModelPreferences 
 } from '../types/mcp.js';
-import { logToFile } from '../config/system.js';
+import { logger } from '../config/logger.js';
 
 export class SamplingService extends EventEmitter {
   private samplingHandler?: SamplingHandler;
+  private supportsSession?: (sessionId: string) => boolean;
 
   constructor() {
     super();
@@ -18,17 +19,20 @@ export class SamplingService extends EventEmitter {
   /**
    * Set the handler that will process sampling requests
    * This should be called by the transport layer when sampling capability is available
+   * @param supportsSession Tells whether a session's client can answer sampling requests
    */
-  setSamplingHandler(handler: SamplingHandler): void {
+  setSamplingHandler(handler: SamplingHandler, supportsSession?: (sessionId: string) => boolean): void {
     this.samplingHandler = handler;
-    logToFile('[Sampling] Handler registered', 'mcp-server.log');
+    this.supportsSession = supportsSession;
+    logger.info('[Sampling] Handler registered');
   }
 
   /**
-   * Check if sampling is available
+   * Check if sampling is available, for a particular session's client if one is given
    */
-  isAvailable(): boolean {
-    return !!this.samplingHandler;
+  isAvailable(sessionId?: string): boolean {
+    if (!this.samplingHandler) return false;
+    return !sessionId || !this.supportsSession || this.supportsSession(sessionId);
   }
 
   /**
@@ -42,9 +46,11 @@ export class SamplingService extends EventEmitter {
       temperature?: number;
       context?: 'thisServer' | 'allServers' | 'none';
       modelPreferences?: ModelPreferences;
+      sessionId?: string;
+      signal?: AbortSignal;
     } = {}
   ): Promise<string> {
-    if (!this.samplingHandler) {
+    if (!this.samplingHandler || !this.isAvailable(options.sessionId)) {
       throw new Error('Sampling is not available. Client must support sampling capability.');
     }
 
@@ -65,19 +71,20 @@ export class SamplingService extends EventEmitter {
       modelPreferences: options.modelPreferences
     };
 
-    logToFile(`[Sampling] Requesting content generation: ${prompt.substring(0, 100)}...`, 'mcp-server.log');
+    logger.info(`[Sampling] Requesting content generation: ${prompt.substring(0, 100)}...`);
 
     try {
-      const result = await this.samplingHandler(request);
+      const result = await this.samplingHandler(request, { sessionId: options.sessionId, signal: options.signal });
       
       if (result.content.type === 'text' && result.content.text) {
-        logToFile(`[Sampling] Generated content with model: ${result.model}`, 'mcp-server.log');
+        logger.info(`[Sampling] Generated content with model: ${result.model}`);
         return result.content.text;
       } else {
         throw new Error('Expected text content from sampling result');
       }
     } catch (error) {
-      logToFile(`[Sampling] Error: ${error}`, 'mcp-server.log');
+      // A cancelled request is the caller's choice, not a failure
+      logger.log(options.signal?.aborted ? 'info' : 'error', `[Sampling] Error: ${error}`, { sessionId: options.sessionId });
       throw error;
     }
   }
@@ -88,7 +95,9 @@ export class SamplingService extends EventEmitter {
   async generateNPCDialogue(
     npcName: string,
     playerMessage: string,
-    gameContext: string
+    gameContext: string,
+    sessionId?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const systemPrompt = `You are ${npcName}, a character in a text-based adventure game. 
 Respond to the player in character, staying true to your role and the game world. 
@@ -106,7 +115,9 @@ Game Context: ${gameContext}`;
           intelligencePriority: 0.7,
           speedPriority: 0.6,
           costPriority: 0.4
-        }
+        },
+        sessionId,
+        signal
       }
     );
   }
@@ -1,39 +1,85 @@
 import { EventEmitter } from 'events';
-import type { PlayerState, GameWorld, Session } from '../types/index.js';
-import { initialGameWorld } from '../config/world.js';
+import { randomBytes, randomUUID } from 'crypto';
+import type { PlayerState, PlayerUpdate, GameWorld, Session, GameSnapshot, RoomMutation, StorageBackend, CombatState } from '../types/index.js';
+import { initialGameWorld, ENTRANCE_ROOM_ID, PLAYER_BASE_STATS, monsters } from '../config/world.js';
+import { systemConfig } from '../config/system.js';
+import { SeededRandom, deriveSeed, randomSeed, type RandomSource } from '../game/random.js';
+import { equipmentSlotOf, isEquipped } from '../game/items.js';
+import { logger } from '../config/logger.js';
+
+// Key of the world every player shares (and the pristine world used when no player is given)
+const SHARED_WORLD = 'shared';
+
+interface WorldInstance {
+  world: GameWorld;
+  mutations: { [roomId: string]: RoomMutation };
+}
 
 class StateService extends EventEmitter {
   private players: Map<string, PlayerState> = new Map();
   private sessions: Map<string, Session> = new Map();
-  private world: GameWorld;
+  private connections: Map<string, string> = new Map(); // connectionId -> sessionId
+  private worlds: Map<string, WorldInstance> = new Map(); // SHARED_WORLD or playerId -> world instance
+  private randoms: Map<string, SeededRandom> = new Map(); // playerId -> the session's random source
+  private sessionsCreated = 0;
+  private reaper?: NodeJS.Timeout;
+  private graceTimers: Map<string, NodeJS.Timeout> = new Map(); // sessionId -> pending reap
+  private storage?: StorageBackend;
+  private saveTimer?: NodeJS.Timeout;
 
   constructor() {
     super();
-    this.world = initialGameWorld;
+    this.worlds.set(SHARED_WORLD, this.createWorldInstance());
   }
 
-  createSession(): Session {
-    // TODO: Replace with actual session ID generation logic, stdio doesn generates a unique ID
-    const sessionId = `session_1234`;
-    const playerId = `player_${Date.now()}`;
+  /**
+   * Create a new session and player, optionally bound to a transport connection.
+   * A connection that already has a session has it ended first.
+   * @param seed Seed for the session's random source; derived from the server seed
+   * (systemConfig.random.seed) or picked at random when not given
+   */
+  createSession(connectionId?: string, seed?: number): Session {
+    if (connectionId) {
+      const existing = this.getSessionByConnection(connectionId);
+      if (existing) {
+        this.endSession(existing.id);
+      }
+    }
+
+    const sessionId = `session_${randomUUID()}`;
+    const playerId = `player_${randomUUID()}`;
     
     // Create initial player state
     const playerState: PlayerState = {
       player_id: playerId,
-      room: 'entrance',
+      room: ENTRANCE_ROOM_ID,
       inventory: [],
+      equipment: {},
       hasQuest: false,
-      monsterPresent: false
+      monsterPresent: false,
+      ...PLAYER_BASE_STATS
     };
     
     this.players.set(playerId, playerState);
-    
+
+    const serverSeed = systemConfig.random.seed;
+    const index = this.sessionsCreated++;
     const session: Session = {
       id: sessionId,
       playerId,
+      connectionId,
+      resumeToken: this.generateResumeToken(),
+      seed: seed ?? (serverSeed !== undefined ? deriveSeed(serverSeed, index) : randomSeed()),
       lastActive: new Date()
     };
+    this.randoms.set(playerId, new SeededRandom(session.seed));
     this.sessions.set(sessionId, session);
+    if (connectionId) {
+      this.connections.set(connectionId, sessionId);
+    }
+
+    logger.info(`[Session] Created ${sessionId} for player ${playerId} (connection: ${connectionId ?? 'none'}, seed: ${session.seed})`, { sessionId, playerId });
+    this.markDirty();
     
     return session;
   }
@@ -42,29 +88,487 @@ class StateService extends EventEmitter {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Find the session bound to a transport connection
+   */
+  getSessionByConnection(connectionId: string): Session | undefined {
+    const sessionId = this.connections.get(connectionId);
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  /**
+   * All sessions, connected or not
+   */
+  getSessions(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Find the session that plays a player
+   */
+  getSessionByPlayer(playerId: string): Session | undefined {
+    return Array.from(this.sessions.values()).find(session => session.playerId === playerId);
+  }
+
+  /**
+   * Re-attach a disconnected (or still connected) session to a new connection.
+   * The resume token is rotated so it can only be used once.
+   * @returns The resumed session, or undefined if the token is unknown or expired
+   */
+  resumeSession(resumeToken: string, connectionId: string): Session | undefined {
+    const session = Array.from(this.sessions.values()).find(candidate => candidate.resumeToken === resumeToken);
+    if (!session) return undefined;
+
+    // Drop whatever the new connection was attached to before
+    const current = this.getSessionByConnection(connectionId);
+    if (current && current.id !== session.id) {
+      this.endSession(current.id);
+    }
+
+    // Take the session over from its previous connection
+    if (session.connectionId && this.connections.get(session.connectionId) === session.id) {
+      this.connections.delete(session.connectionId);
+    }
+
+    this.cancelGraceTimer(session.id);
+    session.connectionId = connectionId;
+    session.disconnectedAt = undefined;
+    session.resumeToken = this.generateResumeToken();
+    session.lastActive = new Date();
+    this.connections.set(connectionId, session.id);
+
+    logger.info(`[Session] Resumed ${session.id} on connection ${connectionId}`, { sessionId: session.id, playerId: session.playerId });
+    this.emit('TOOLS_CHANGED', { playerId: session.playerId });
+    this.emit('PROMPTS_CHANGED', { playerId: session.playerId });
+    this.markDirty();
+
+    return session;
+  }
+
+  /**
+   * Detach a session from a closed connection. The player is kept for the configured
+   * grace period so the client can resume, then reaped. A connection that can come back
+   * (an HTTP session whose event streams closed) keeps the session bound to it, and
+   * attaches it again when it does.
+   */
+  detachSession(connectionId: string, keepConnection: boolean = false): boolean {
+    const session = this.getSessionByConnection(connectionId);
+    if (!session) return false;
+
+    if (!keepConnection) {
+      this.connections.delete(connectionId);
+      session.connectionId = undefined;
+    }
+    session.disconnectedAt = new Date();
+    this.markDirty();
+
+    return this.scheduleGraceReap(session);
+  }
+
+  /**
+   * Attach a session again when the connection it was detached from comes back,
+   * calling off its reaping
+   */
+  reattachSession(connectionId: string): boolean {
+    const session = this.getSessionByConnection(connectionId);
+    if (!session?.disconnectedAt) return false;
+
+    this.cancelGraceTimer(session.id);
+    session.disconnectedAt = undefined;
+    this.markDirty();
+
+    logger.info(`[Session] Reattached ${session.id} on connection ${connectionId}`, { sessionId: session.id, playerId: session.playerId });
+    return true;
+  }
+
+  /**
+   * Mark a session as active now, postponing its idle expiry. Activity on a detached
+   * session's connection attaches it again.
+   */
+  touchSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActive = new Date();
+      if (session.connectionId) this.reattachSession(session.connectionId);
+      this.markDirty();
+    }
+  }
+
+  /**
+   * End a session and remove its player from the game
+   */
+  endSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    this.cancelGraceTimer(sessionId);
+    this.sessions.delete(sessionId);
+    this.players.delete(session.playerId);
+    this.worlds.delete(session.playerId);
+    this.randoms.delete(session.playerId);
+    const connectionId = session.connectionId && this.connections.get(session.connectionId) === sessionId
+      ? session.connectionId
+      : undefined;
+    if (connectionId) {
+      this.connections.delete(connectionId);
+    }
+
+    logger.info(`[Session] Ended ${sessionId} (player ${session.playerId})`, { sessionId, playerId: session.playerId });
+    this.emit('SESSION_ENDED', { sessionId, playerId: session.playerId, connectionId });
+    this.markDirty();
+
+    return true;
+  }
+
+  /**
+   * End the session bound to a transport connection, if any
+   */
+  endSessionForConnection(connectionId: string): boolean {
+    const session = this.getSessionByConnection(connectionId);
+    return session ? this.endSession(session.id) : false;
+  }
+
+  /**
+   * End every session that has been idle longer than the configured timeout
+   * @returns The ids of the sessions that were ended
+   */
+  reapIdleSessions(now: number = Date.now()): string[] {
+    const cutoff = now - systemConfig.session.idleTimeout;
+    const expired = Array.from(this.sessions.values())
+      .filter(session => session.lastActive.getTime() < cutoff)
+      .map(session => session.id);
+
+    expired.forEach(sessionId => this.endSession(sessionId));
+    return expired;
+  }
+
+  /**
+   * Periodically reap idle sessions
+   */
+  startSessionReaper(): void {
+    if (this.reaper) return;
+
+    this.reaper = setInterval(() => this.reapIdleSessions(), systemConfig.session.reapInterval);
+    // The reaper alone should not keep the process alive
+    this.reaper.unref();
+  }
+
+  stopSessionReaper(): void {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = undefined;
+    }
+  }
+
+  /**
+   * Load saved state from a storage backend and save future changes to it.
+   * Restored sessions start out disconnected and can be resumed within the grace period.
+   */
+  async attachStorage(storage: StorageBackend): Promise<void> {
+    const snapshot = await storage.load();
+    if (snapshot) {
+      this.restoreSnapshot(snapshot);
+    }
+    this.storage = storage;
+  }
+
+  /**
+   * Save the current state immediately
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (this.storage) {
+      await this.storage.save(this.createSnapshot());
+    }
+  }
+
+  createSnapshot(): GameSnapshot {
+    const instances: NonNullable<GameSnapshot['instances']> = {};
+    for (const [key, instance] of this.worlds) {
+      if (key !== SHARED_WORLD) {
+        instances[key] = instance.mutations;
+      }
+    }
+
+    return {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      players: Array.from(this.players.values()),
+      sessions: Array.from(this.sessions.values()).map(session => ({
+        id: session.id,
+        playerId: session.playerId,
+        resumeToken: session.resumeToken,
+        seed: session.seed,
+        randomState: this.randoms.get(session.playerId)?.state,
+        lastActive: session.lastActive.toISOString()
+      })),
+      sessionsCreated: this.sessionsCreated,
+      rooms: this.worlds.get(SHARED_WORLD)!.mutations,
+      instances
+    };
+  }
+
+  private restoreSnapshot(snapshot: GameSnapshot): void {
+    // Players saved before hit points and equipment existed start with the base stats and nothing equipped.
+    // A player without a session could never be resumed, so it is not brought back.
+    const resumable = new Set(snapshot.sessions.map(session => session.playerId));
+    snapshot.players
+      .filter(player => resumable.has(player.player_id))
+      .forEach(player => this.players.set(player.player_id, { ...PLAYER_BASE_STATS, ...player, equipment: player.equipment ?? {} }));
+
+    // No connection survives a restart, so every session waits to be resumed
+    for (const saved of snapshot.sessions) {
+      const { randomState, ...fields } = saved;
+      const session: Session = {
+        ...fields,
+        seed: saved.seed ?? randomSeed(),
+        lastActive: new Date(saved.lastActive),
+        disconnectedAt: new Date()
+      };
+      this.sessions.set(session.id, session);
+      this.randoms.set(session.playerId, new SeededRandom(session.seed, randomState));
+      this.scheduleGraceReap(session);
+    }
+    // Carry on counting so a restart does not hand out seeds that were already played;
+    // saves without the count have at least one session per saved session
+    this.sessionsCreated = snapshot.sessionsCreated ?? snapshot.sessions.length;
+
+    this.applyMutations(this.worlds.get(SHARED_WORLD)!, snapshot.rooms);
+    if (systemConfig.world.mode === 'instanced') {
+      for (const [playerId, mutations] of Object.entries(snapshot.instances ?? {})) {
+        if (this.players.has(playerId)) {
+          this.applyMutations(this.getWorldInstance(playerId), mutations);
+        }
+      }
+    }
+
+    logger.info(`[Storage] Restored ${this.players.size} players and ${snapshot.sessions.length} sessions`);
+  }
+
+  /**
+   * Save soon; changes arriving in the meantime are written together
+   */
+  private markDirty(): void {
+    if (!this.storage || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush().catch(error => {
+        logger.error(`[Storage] Failed to save game state: ${error}`);
+      });
+    }, systemConfig.storage.saveDelay);
+  }
+
+  private createWorldInstance(): WorldInstance {
+    // Deep copy so play never changes the template exported by config/world.ts
+    return { world: structuredClone(initialGameWorld), mutations: {} };
+  }
+
+  /**
+   * The world a player plays in: the shared world, or their own copy in instanced mode
+   */
+  private getWorldInstance(playerId?: string): WorldInstance {
+    if (systemConfig.world.mode === 'shared' || !playerId || !this.players.has(playerId)) {
+      return this.worlds.get(SHARED_WORLD)!;
+    }
+
+    let instance = this.worlds.get(playerId);
+    if (!instance) {
+      instance = this.createWorldInstance();
+      this.worlds.set(playerId, instance);
+    }
+    return instance;
+  }
+
+  private applyMutations(instance: WorldInstance, mutations: { [roomId: string]: RoomMutation }): void {
+    for (const [roomId, mutation] of Object.entries(mutations)) {
+      mutation.itemsTaken.forEach(itemId => this.takeItemFromRoom(instance, roomId, itemId));
+      mutation.monstersDefeated.forEach(monsterId => this.removeMonsterFromRoom(instance, roomId, monsterId));
+      for (const [monsterId, damage] of Object.entries(mutation.monsterDamage ?? {})) {
+        this.woundMonster(instance, roomId, monsterId, damage);
+      }
+      mutation.exitsUnlocked?.forEach(direction => this.openLock(instance, roomId, direction));
+    }
+  }
+
+  private takeItemFromRoom(instance: WorldInstance, roomId: string, itemId: string): boolean {
+    const room = instance.world.rooms[roomId];
+    if (!room || !room.items.includes(itemId)) return false;
+
+    room.items = room.items.filter(id => id !== itemId);
+    this.getRoomMutation(instance, roomId).itemsTaken.push(itemId);
+    return true;
+  }
+
+  private removeMonsterFromRoom(instance: WorldInstance, roomId: string, monsterId: string): boolean {
+    const room = instance.world.rooms[roomId];
+    if (!room || !room.monsters.includes(monsterId)) return false;
+
+    room.monsters = room.monsters.filter(id => id !== monsterId);
+    this.getRoomMutation(instance, roomId).monstersDefeated.push(monsterId);
+    return true;
+  }
+
+  private woundMonster(instance: WorldInstance, roomId: string, monsterId: string, damage: number): void {
+    const mutation = this.getRoomMutation(instance, roomId);
+    mutation.monsterDamage = mutation.monsterDamage ?? {};
+    mutation.monsterDamage[monsterId] = (mutation.monsterDamage[monsterId] ?? 0) + damage;
+  }
+
+  private openLock(instance: WorldInstance, roomId: string, direction: string): boolean {
+    const room = instance.world.rooms[roomId];
+    if (!room?.locks?.[direction]) return false;
+
+    delete room.locks[direction];
+    const mutation = this.getRoomMutation(instance, roomId);
+    mutation.exitsUnlocked = [...(mutation.exitsUnlocked ?? []), direction];
+    return true;
+  }
+
+  private getRoomMutation(instance: WorldInstance, roomId: string): RoomMutation {
+    if (!instance.mutations[roomId]) {
+      instance.mutations[roomId] = { itemsTaken: [], monstersDefeated: [] };
+    }
+    return instance.mutations[roomId];
+  }
+
+  private scheduleGraceReap(session: Session): boolean {
+    const gracePeriod = systemConfig.session.resumeGracePeriod;
+    if (gracePeriod <= 0) {
+      return this.endSession(session.id);
+    }
+
+    this.cancelGraceTimer(session.id);
+    const timer = setTimeout(() => {
+      this.graceTimers.delete(session.id);
+      logger.info(`[Session] Grace period expired for ${session.id}`, { sessionId: session.id });
+      this.endSession(session.id);
+    }, gracePeriod);
+    timer.unref();
+    this.graceTimers.set(session.id, timer);
+
+    logger.info(`[Session] Detached ${session.id}, reaping in ${gracePeriod}ms unless resumed`, { sessionId: session.id });
+    return true;
+  }
+
+  private cancelGraceTimer(sessionId: string): void {
+    const timer = this.graceTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(sessionId);
+    }
+  }
+
+  private emitPlayerUpdated(playerId: string, changes: PlayerUpdate[]): void {
+    this.emit('PLAYER_UPDATED', { playerId, changes });
+  }
+
+  /**
+   * Tell everyone standing in a room that its contents changed. In instanced mode
+   * only the owner of the world can be there. Each of them may have gained or lost
+   * a monster to fight, so their tools are refreshed too.
+   */
+  private emitRoomUpdated(playerId: string, roomId: string): void {
+    const witnesses = systemConfig.world.mode === 'shared'
+      ? Array.from(this.players.values())
+      : [this.players.get(playerId)];
+
+    for (const playerState of witnesses) {
+      if (!playerState || playerState.room !== roomId) continue;
+
+      const room = this.getWorld(playerState.player_id).rooms[roomId];
+      const hadMonster = playerState.monsterPresent;
+      playerState.monsterPresent = !!room && room.monsters.length > 0;
+
+      this.emit('TOOLS_CHANGED', { playerId: playerState.player_id });
+      if (hadMonster !== playerState.monsterPresent) {
+        this.emit('PROMPTS_CHANGED', { playerId: playerState.player_id });
+      }
+      this.emitPlayerUpdated(playerState.player_id, ['room']);
+    }
+  }
+
+  private generateResumeToken(): string {
+    return randomBytes(24).toString('base64url');
+  }
+
   getPlayerState(playerId: string): PlayerState | undefined {
     return this.players.get(playerId);
   }
 
-  getWorld(): GameWorld {
-    return this.world;
+  /**
+   * The random source for a player's chance-based mechanics. Players without a session
+   * get an unseeded one.
+   */
+  getRandom(playerId: string): RandomSource {
+    return this.randoms.get(playerId) ?? new SeededRandom(randomSeed());
+  }
+
+  /**
+   * Rebuild every world from the current template, replaying the changes recorded for it
+   */
+  rebuildWorlds(): void {
+    for (const [key, instance] of this.worlds) {
+      const rebuilt = this.createWorldInstance();
+      this.applyMutations(rebuilt, instance.mutations);
+      this.worlds.set(key, rebuilt);
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Apply a changed world template to the running game. Players keep their inventories and
+   * stay where they are; anyone whose room no longer exists is moved to the entrance.
+   */
+  reloadWorld(): void {
+    this.rebuildWorlds();
+
+    for (const playerState of this.players.values()) {
+      const world = this.getWorld(playerState.player_id);
+      if (!world.rooms[playerState.room]) {
+        logger.warning(`[World] Room '${playerState.room}' was removed, moving ${playerState.player_id} to the entrance`, { playerId: playerState.player_id });
+        playerState.room = ENTRANCE_ROOM_ID;
+      }
+
+      const room = world.rooms[playerState.room];
+      playerState.monsterPresent = !!room && room.monsters.length > 0;
+
+      this.emit('TOOLS_CHANGED', { playerId: playerState.player_id });
+      this.emit('PROMPTS_CHANGED', { playerId: playerState.player_id });
+      this.emitPlayerUpdated(playerState.player_id, ['location', 'room']);
+    }
+
+    this.markDirty();
+    this.emit('WORLD_RELOADED');
+  }
+
+  /**
+   * Get the world a player is in. Without a player, the shared world is returned.
+   */
+  getWorld(playerId?: string): GameWorld {
+    return this.getWorldInstance(playerId).world;
   }
 
   movePlayer(playerId: string, direction: string): boolean {
     const playerState = this.getPlayerState(playerId);
     if (!playerState) return false;
 
-    const currentRoom = this.world.rooms[playerState.room];
+    const currentRoom = this.getWorld(playerId).rooms[playerState.room];
     if (!currentRoom) return false;
 
     const nextRoomId = currentRoom.exits[direction];
     if (!nextRoomId) return false;
 
-    const nextRoom = this.world.rooms[nextRoomId];
+    const nextRoom = this.getWorld(playerId).rooms[nextRoomId];
     if (!nextRoom) return false;
 
     // Update player location
     playerState.room = nextRoomId;
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['location']);
 
     // Update monster presence based on new room
     const hadMonster = playerState.monsterPresent;
@@ -83,16 +587,18 @@ class StateService extends EventEmitter {
     const playerState = this.getPlayerState(playerId);
     if (!playerState) return false;
 
-    const room = this.world.rooms[playerState.room];
+    const room = this.getWorld(playerId).rooms[playerState.room];
     if (!room || !room.items.includes(itemId)) return false;
 
     // Add to inventory and remove from room
     playerState.inventory.push(itemId);
-    room.items = room.items.filter(id => id !== itemId);
+    this.removeItemFromRoom(playerId, playerState.room, itemId);
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['inventory']);
 
     if (room.items.length === 0) {
       // console.log(`All items collected in room`, { playerId });
-      setTimeout(() => this.emit('TOOLS_CHANGED', { playerId }, 1));
+      setTimeout(() => this.emit('TOOLS_CHANGED', { playerId }), 1);
     }
 
     // If this was a quest item, check if we need to update prompts
@@ -107,10 +613,12 @@ class StateService extends EventEmitter {
     const playerState = this.getPlayerState(playerId);
     if (!playerState) return false;
 
-    const room = this.world.rooms[playerState.room];
+    const room = this.getWorld(playerId).rooms[playerState.room];
     if (!room || !room.hasQuest || playerState.hasQuest) return false;
 
     playerState.hasQuest = true;
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['quest']);
     
     // Update available prompts since quest state changed
     this.emit('PROMPTS_CHANGED', { playerId });
@@ -122,47 +630,21 @@ class StateService extends EventEmitter {
     const playerState = this.getPlayerState(playerId);
     if (!playerState || !playerState.monsterPresent) return false;
 
-    const room = this.world.rooms[playerState.room];
+    const room = this.getWorld(playerId).rooms[playerState.room];
     return room?.monsters?.length > 0 || false;
   }
 
-  battle(playerId: string): { success: boolean; monsterName?: string } {
-    const playerState = this.getPlayerState(playerId);
-    if (!playerState || !playerState.monsterPresent) {
-      return { success: false };
-    }
-
-    const room = this.world.rooms[playerState.room];
-    if (!room || !room.monsters || room.monsters.length === 0) {
-      return { success: false };
-    }
-
-    const monsterName = room.monsters[0];
-    
-    // 50% chance to win battle
-    const success = Math.random() >= 0.5;
-    if (success) {
-      // Remove monster from room on victory
-      room.monsters = room.monsters.filter(m => m !== monsterName);
-      playerState.monsterPresent = false;
-      
-      // Update tools and prompts since battle state changed
-      this.emit('TOOLS_CHANGED', { playerId });
-      this.emit('PROMPTS_CHANGED', { playerId });
-    }
-
-    return { success, monsterName };
-  }
-
   updatePlayerRoom(playerId: string, roomId: string): boolean {
     const playerState = this.getPlayerState(playerId);
     if (!playerState) return false;
 
-    const targetRoom = this.world.rooms[roomId];
+    const targetRoom = this.getWorld(playerId).rooms[roomId];
     if (!targetRoom) return false;
 
     const oldRoom = playerState.room;
     playerState.room = roomId;
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['location']);
 
     // Update monster presence based on new room
     const hadMonster = playerState.monsterPresent;
@@ -177,13 +659,189 @@ class StateService extends EventEmitter {
     return true;
   }
 
-  removeItemFromRoom(roomId: string, itemId: string): boolean {
-    const room = this.world.rooms[roomId];
-    if (!room || !room.items.includes(itemId)) return false;
+  /**
+   * Remove an item from a room in the player's world
+   */
+  removeItemFromRoom(playerId: string, roomId: string, itemId: string): boolean {
+    if (!this.takeItemFromRoom(this.getWorldInstance(playerId), roomId, itemId)) return false;
 
-    room.items = room.items.filter(id => id !== itemId);
+    this.markDirty();
+    this.emitRoomUpdated(playerId, roomId);
+    return true;
+  }
+
+  /**
+   * Remove a defeated monster from a room in the player's world
+   */
+  defeatMonster(playerId: string, roomId: string, monsterId: string): boolean {
+    const instance = this.getWorldInstance(playerId);
+    if (!this.removeMonsterFromRoom(instance, roomId, monsterId)) return false;
+
+    delete instance.mutations[roomId]?.monsterDamage?.[monsterId];
+    this.markDirty();
+    this.emitRoomUpdated(playerId, roomId);
     return true;
   }
+
+  /**
+   * Health a monster in a room of the player's world has left. Wounds last until it is
+   * defeated, so a monster the player fled from is still hurt when they come back.
+   * @returns undefined if the monster is not in the room
+   */
+  getMonsterHealth(playerId: string, roomId: string, monsterId: string): number | undefined {
+    const instance = this.getWorldInstance(playerId);
+    const monster = monsters[monsterId];
+    if (!monster || !instance.world.rooms[roomId]?.monsters.includes(monsterId)) return undefined;
+
+    const damage = instance.mutations[roomId]?.monsterDamage?.[monsterId] ?? 0;
+    return Math.max(0, monster.health - damage);
+  }
+
+  /**
+   * Wound a monster in the player's world, defeating it once its health runs out
+   * @returns The monster's remaining health, or undefined if it is not in the room
+   */
+  damageMonster(playerId: string, roomId: string, monsterId: string, amount: number): number | undefined {
+    if (this.getMonsterHealth(playerId, roomId, monsterId) === undefined) return undefined;
+
+    this.woundMonster(this.getWorldInstance(playerId), roomId, monsterId, amount);
+    const remaining = this.getMonsterHealth(playerId, roomId, monsterId)!;
+    if (remaining === 0) {
+      this.defeatMonster(playerId, roomId, monsterId);
+    } else {
+      this.markDirty();
+      this.emitRoomUpdated(playerId, roomId);
+    }
+    return remaining;
+  }
+
+  /**
+   * Equip an item from the player's inventory in its slot, replacing whatever was there
+   * @returns false if the player does not carry the item or it cannot be equipped
+   */
+  equipItem(playerId: string, itemId: string): boolean {
+    const playerState = this.getPlayerState(playerId);
+    const slot = equipmentSlotOf(itemId);
+    if (!playerState || !slot || !playerState.inventory.includes(itemId)) return false;
+
+    playerState.equipment[slot] = itemId;
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['inventory']);
+    this.emit('TOOLS_CHANGED', { playerId });
+    return true;
+  }
+
+  /**
+   * Take an equipped item off; it stays in the inventory
+   * @returns false if the item is not equipped
+   */
+  unequipItem(playerId: string, itemId: string): boolean {
+    const playerState = this.getPlayerState(playerId);
+    const slot = equipmentSlotOf(itemId);
+    if (!playerState || !slot || playerState.equipment[slot] !== itemId) return false;
+
+    delete playerState.equipment[slot];
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['inventory']);
+    this.emit('TOOLS_CHANGED', { playerId });
+    return true;
+  }
+
+  /**
+   * Use up an item, removing it from the inventory (and from its slot)
+   * @returns false if the player does not carry the item
+   */
+  consumeItem(playerId: string, itemId: string): boolean {
+    const playerState = this.getPlayerState(playerId);
+    if (!playerState) return false;
+
+    const index = playerState.inventory.indexOf(itemId);
+    if (index === -1) return false;
+
+    if (isEquipped(playerState, itemId)) {
+      this.unequipItem(playerId, itemId);
+    }
+    playerState.inventory.splice(index, 1);
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['inventory']);
+    this.emit('TOOLS_CHANGED', { playerId });
+    return true;
+  }
+
+  /**
+   * Open the lock on an exit of a room. Like taken items, an opened lock stays open
+   * for everyone playing in the same world.
+   * @returns false if the exit is not locked
+   */
+  unlockExit(playerId: string, roomId: string, direction: string): boolean {
+    const unlocked = this.openLock(this.getWorldInstance(playerId), roomId, direction);
+    if (unlocked) {
+      this.markDirty();
+      this.emitRoomUpdated(playerId, roomId);
+    }
+    return unlocked;
+  }
+
+  /**
+   * Start, update or (without combat) end the player's fight
+   */
+  setCombat(playerId: string, combat?: CombatState): boolean {
+    const playerState = this.getPlayerState(playerId);
+    if (!playerState) return false;
+
+    const changed = !!playerState.combat !== !!combat;
+    playerState.combat = combat;
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['health']);
+
+    // Defend and flee are only offered during a fight
+    if (changed) {
+      this.emit('TOOLS_CHANGED', { playerId });
+    }
+    return true;
+  }
+
+  /**
+   * Take hit points from a player, never below zero
+   * @returns The player's remaining hit points
+   */
+  damagePlayer(playerId: string, amount: number): number {
+    const playerState = this.getPlayerState(playerId);
+    if (!playerState) return 0;
+
+    playerState.hp = Math.max(0, playerState.hp - Math.max(0, amount));
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['health']);
+    return playerState.hp;
+  }
+
+  /**
+   * Restore hit points to a player, never above their maximum
+   * @returns The player's hit points afterwards
+   */
+  healPlayer(playerId: string, amount: number): number {
+    const playerState = this.getPlayerState(playerId);
+    if (!playerState) return 0;
+
+    playerState.hp = Math.min(playerState.maxHp, playerState.hp + Math.max(0, amount));
+    this.markDirty();
+    this.emitPlayerUpdated(playerId, ['health']);
+    return playerState.hp;
+  }
+
+  /**
+   * Bring a dead player back at the entrance with full health. They keep their inventory;
+   * the monster that killed them keeps its wounds.
+   */
+  respawnPlayer(playerId: string): boolean {
+    const playerState = this.getPlayerState(playerId);
+    if (!playerState) return false;
+
+    logger.info(`[Combat] ${playerId} died in ${playerState.room} and respawns at the entrance`, { playerId });
+    playerState.hp = playerState.maxHp;
+    this.setCombat(playerId, undefined);
+    return this.updatePlayerRoom(playerId, ENTRANCE_ROOM_ID);
+  }
 }
 
 export default new StateService();
\ No newline at end of file
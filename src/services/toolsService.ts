@@ -2,8 +2,15 @@ import { EventEmitter } from 'events';
 import type { Tool, ToolResponse } from '../types/index.js';
 import stateService from './stateService.js';
 import samplingService from './samplingService.js';
-import { items, monsters } from '../config/world.js';
+import elicitationService from './elicitationService.js';
+import combatService, { type CombatRound } from './combatService.js';
+import { DIRECTIONS, items, monsters } from '../config/world.js';
+import type { Equipment, PlayerState } from '../types/index.js';
+import { canSee, effectiveStats, equipmentSlotOf, isEquipped, isUsable } from '../game/items.js';
 import { McpContext, ToolResult } from '../types/mcp.js';
+import { InvalidParamsError } from '../mcp/errors.js';
+import { validateJsonSchema } from '../mcp/json-schema.js';
+import { logger } from '../config/logger.js';
 
 interface ToolParameters {
   [key: string]: any;
@@ -13,6 +20,97 @@ interface ToolError extends Error {
   message: string;
 }
 
+// Structured results refer to rooms, items and monsters by id and display name
+interface EntityRef {
+  id: string;
+  name: string;
+}
+
+const ENTITY_REF_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' }
+  },
+  required: ['id', 'name']
+};
+
+function roomRef(room: { id: string; name: string }): EntityRef {
+  return { id: room.id, name: room.name };
+}
+
+function itemRef(itemId: string): EntityRef {
+  return { id: itemId, name: items[itemId]?.name ?? itemId };
+}
+
+function monsterRef(monsterId: string): EntityRef {
+  return { id: monsterId, name: monsters[monsterId]?.name ?? monsterId };
+}
+
+const EQUIPMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    weapon: ENTITY_REF_SCHEMA,
+    armor: ENTITY_REF_SCHEMA,
+    light: ENTITY_REF_SCHEMA
+  },
+  description: 'Equipped items by slot; empty slots are left out'
+};
+
+function equipmentRefs(equipment: Equipment): { [slot: string]: EntityRef } {
+  return Object.fromEntries(Object.entries(equipment).map(([slot, itemId]) => [slot, itemRef(itemId!)]));
+}
+
+function itemName(itemId: string): string {
+  return items[itemId]?.name || itemId;
+}
+
+// battle, defend and flee all report the state of the fight
+const COMBAT_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    fought: { type: 'boolean', description: 'False if no round was fought' },
+    monster: { ...ENTITY_REF_SCHEMA, description: 'Only present if you fought' },
+    won: { type: 'boolean' },
+    outcome: { type: 'string', enum: ['ongoing', 'victory', 'defeat', 'fled'] },
+    round: { type: 'integer', minimum: 1 },
+    damageDealt: { type: 'integer', minimum: 0 },
+    damageTaken: { type: 'integer', minimum: 0 },
+    playerHp: { type: 'integer', minimum: 0, description: 'Your hit points afterwards; full again after a defeat' },
+    monsterHp: { type: 'integer', minimum: 0 },
+    fledTo: { ...ENTITY_REF_SCHEMA, description: 'Room you escaped to' }
+  },
+  required: ['fought', 'won', 'playerHp']
+};
+
+function describeRound(round: CombatRound, playerState: PlayerState, roomName: (roomId: string) => string): string {
+  const name = monsters[round.monsterId]?.name ?? round.monsterId;
+  const lines: string[] = [];
+
+  if (round.action === 'attack') lines.push(`You hit the ${name} for ${round.damageDealt} damage.`);
+  if (round.action === 'defend') lines.push(`You raise your guard against the ${name}.`);
+  if (round.action === 'flee' && round.outcome !== 'fled') lines.push(`You try to flee, but the ${name} blocks your way!`);
+
+  switch (round.outcome) {
+    case 'victory':
+      lines.push(`The ${name} falls and disappears into shadows. You are victorious!`);
+      break;
+    case 'fled':
+      lines.push(`You escape from the ${name} to ${roomName(round.fledTo!)}.`);
+      break;
+    case 'defeat':
+      lines.push(`The ${name} strikes you down for ${round.damageTaken} damage.`);
+      lines.push(`Everything goes dark... You wake up at the dungeon entrance with ${playerState.hp}/${playerState.maxHp} HP.`);
+      break;
+    default:
+      lines.push(round.damageTaken > 0
+        ? `The ${name} hits you for ${round.damageTaken} damage.`
+        : `The ${name}'s blow glances off you.`);
+      lines.push(`You have ${playerState.hp}/${playerState.maxHp} HP; the ${name} has ${round.monsterHp} left.`);
+  }
+  return lines.join('\n');
+}
+
 /**
  * Tools Service
  * 
@@ -38,19 +136,34 @@ class ToolsService extends EventEmitter {
   }
 
   /**
-   * Execute a tool by name
+   * Whether a tool is registered, whether or not the player can use it right now
+   */
+  hasTool(name: string): boolean {
+    return !!this.toolHandlers[name];
+  }
+
+  /**
+   * Execute a tool by name. Arguments are checked against the tool's inputSchema first;
+   * failures inside the handler are reported as a tool result with isError set.
+   * Structured content that does not match the tool's outputSchema is logged as a bug.
+   * @throws InvalidParamsError if the tool is unknown or the arguments do not match its schema
    */
   async executeTool(name: string, params: Record<string, unknown>, context: McpContext): Promise<ToolResult> {
     const handler = this.toolHandlers[name];
     if (!handler) {
-      return {
-        content: [{ type: 'text', text: `Tool '${name}' not found.` }],
-        isError: true
-      };
+      throw new InvalidParamsError(`Unknown tool: ${name}`, { tool: name });
+    }
+
+    const violations = validateJsonSchema(params, this.tools[name].inputSchema);
+    if (violations.length > 0) {
+      const details = violations.map(violation => violation.path ? `${violation.path}: ${violation.message}` : violation.message);
+      throw new InvalidParamsError(`Invalid arguments for tool '${name}': ${details.join('; ')}`, { tool: name, violations });
     }
 
     try {
-      return await handler(params, context);
+      const result = await handler(params, context);
+      this.checkOutput(name, result);
+      return result;
     } catch (error) {
       return {
         content: [{ type: 'text', text: `Error executing tool '${name}': ${error instanceof Error ? error.message : 'Unknown error'}` }],
@@ -58,6 +171,60 @@ class ToolsService extends EventEmitter {
       };
     }
   }
+  // A tool that declares an outputSchema promises structured content on every successful call
+  private checkOutput(name: string, result: ToolResult): void {
+    const outputSchema = this.tools[name].outputSchema;
+    if (!outputSchema || result.isError) return;
+
+    const violations = result.structuredContent
+      ? validateJsonSchema(result.structuredContent, outputSchema)
+      : [{ path: '', message: 'Missing structuredContent' }];
+    if (violations.length > 0) {
+      logger.warning(`[Tools] Result of '${name}' does not match its outputSchema`, { data: { violations } });
+    }
+  }
+
+  /**
+   * Work out which of the candidate ids a player-typed name refers to. An exact name wins,
+   * then a lone partial match of name or id; otherwise, or when no name was given, the
+   * player is asked to pick if the client supports elicitation.
+   * @returns The id, or undefined if nothing matched and the player did not pick
+   */
+  private async resolveName(
+    typed: string | undefined,
+    candidates: string[],
+    nameOf: (id: string) => string,
+    question: { message: string; field: string },
+    context: McpContext
+  ): Promise<string | undefined> {
+    let options = Array.from(new Set(candidates));
+    const wanted = typed?.trim().toLowerCase();
+
+    if (wanted) {
+      const exact = options.find(id => nameOf(id).toLowerCase() === wanted);
+      if (exact) return exact;
+
+      const partial = options.filter(id => nameOf(id).toLowerCase().includes(wanted) || id.toLowerCase().includes(wanted));
+      if (partial.length === 1) return partial[0];
+      if (partial.length > 1) options = partial;
+    }
+
+    const choice = await elicitationService.choose(question.message, question.field, options.map(nameOf), {
+      sessionId: context.sessionId,
+      signal: context.signal
+    });
+    return options.find(id => nameOf(id) === choice);
+  }
+
+  /**
+   * Ask the player to confirm a call to a tool annotated as destructive
+   * @returns true if the tool is not destructive, the player confirmed, or there is no way to ask
+   */
+  private async confirmDestructive(name: string, message: string, context: McpContext): Promise<boolean> {
+    if (!this.tools[name]?.annotations?.destructiveHint) return true;
+    return elicitationService.confirm(message, { sessionId: context.sessionId, signal: context.signal });
+  }
+
   /**
    * Get all available tools based on player's current state
    */
@@ -72,7 +239,7 @@ class ToolsService extends EventEmitter {
       return [this.tools.look, this.tools.inventory].filter(Boolean);
     }
 
-    const world = stateService.getWorld();
+    const world = stateService.getWorld(playerId);
     const room = world.rooms[playerState.room];
     if (!room) {
       return [this.tools.look, this.tools.inventory].filter(Boolean);
@@ -89,18 +256,35 @@ class ToolsService extends EventEmitter {
       availableTools.push(this.tools.move);
     }
 
-    // Take tool - available if there are items in the room
-    if (room.items.length > 0 && this.tools.take) {
+    // Take tool - available if there are items in the room that the player can see
+    if (room.items.length > 0 && canSee(playerState, room) && this.tools.take) {
       availableTools.push(this.tools.take);
     }
 
+    // Item tools - available if the player carries something to use, equip or take off
+    if (playerState.inventory.some(isUsable) && this.tools.use) {
+      availableTools.push(this.tools.use);
+    }
+    if (playerState.inventory.some(itemId => equipmentSlotOf(itemId) && !isEquipped(playerState, itemId)) && this.tools.equip) {
+      availableTools.push(this.tools.equip);
+    }
+    if (Object.keys(playerState.equipment).length > 0 && this.tools.unequip) {
+      availableTools.push(this.tools.unequip);
+    }
+
     // Battle tool - available if there are monsters in the room
     if (room.monsters.length > 0 && this.tools.battle) {
       availableTools.push(this.tools.battle);
     }
 
-    // Talk tool - available if sampling is supported (for NPC interactions)
-    if (samplingService.isAvailable() && this.tools.talk) {
+    // Defend and flee - available during a fight
+    if (playerState.combat) {
+      if (this.tools.defend) availableTools.push(this.tools.defend);
+      if (this.tools.flee) availableTools.push(this.tools.flee);
+    }
+
+    // Talk tool - available if the player's client supports sampling (for NPC interactions)
+    if (samplingService.isAvailable(stateService.getSessionByPlayer(playerId)?.id) && this.tools.talk) {
       availableTools.push(this.tools.talk);
     }
 
@@ -136,7 +320,7 @@ class ToolsService extends EventEmitter {
       };
     }
     
-    const world = stateService.getWorld();
+    const world = stateService.getWorld(session.playerId);
     const room = world.rooms[playerState.room];
     if (!room) {
       return {
@@ -147,11 +331,14 @@ class ToolsService extends EventEmitter {
     
     // Get exits as a string
     const exits = Object.entries(room.exits)
-      .map(([direction, roomId]) => direction.charAt(0).toUpperCase() + direction.slice(1))
+      .map(([direction, roomId]) => direction.charAt(0).toUpperCase() + direction.slice(1) + (room.locks?.[direction] ? ' (locked)' : ''))
       .join(', ');
     
-    // Get items in the room
-    const itemsText = room.items.length > 0 
+    // Get items in the room, unless it is too dark to see them
+    const lit = canSee(playerState, room);
+    const itemsText = !lit
+      ? '\nIt is too dark to see what lies around you. A light would help.'
+      : room.items.length > 0 
       ? `\nYou see: ${room.items.map(itemId => {
           const item = items[itemId];
           return item ? item.name : itemId;
@@ -174,7 +361,16 @@ class ToolsService extends EventEmitter {
       content: [{ 
         type: 'text', 
         text: `${room.description}\n\nExits: ${exits}.${itemsText}${monsterText}${questText}` 
-      }]
+      }],
+      structuredContent: {
+        room: roomRef(room),
+        exits: Object.keys(room.exits),
+        locked: Object.keys(room.locks ?? {}),
+        dark: !lit,
+        items: lit ? room.items.map(itemRef) : [],
+        monsters: room.monsters.map(monsterRef),
+        questAvailable: room.hasQuest && !playerState.hasQuest
+      }
     };
   };
 
@@ -200,7 +396,7 @@ class ToolsService extends EventEmitter {
 
       const { direction } = params as { direction: string };
       const playerState = stateService.getPlayerState(session.playerId);
-      const world = stateService.getWorld();
+      const world = stateService.getWorld(session.playerId);
       
       if (!playerState) {
         return {
@@ -216,15 +412,45 @@ class ToolsService extends EventEmitter {
           isError: true
         };
       }
+
+      const opponent = combatService.getOpponent(session.playerId);
+      if (opponent) {
+        return {
+          content: [{ type: 'text', text: `The ${monsters[opponent]?.name ?? opponent} will not let you walk away. Fight, defend or flee!` }],
+          structuredContent: {
+            moved: false,
+            from: roomRef(currentRoom),
+            exits: Object.keys(currentRoom.exits)
+          },
+          isError: false
+        };
+      }
       
       const targetRoomId = currentRoom.exits[direction.toLowerCase()];
       if (!targetRoomId) {
         return {
           content: [{ type: 'text', text: `You can't go ${direction} from here.` }],
+          structuredContent: {
+            moved: false,
+            from: roomRef(currentRoom),
+            exits: Object.keys(currentRoom.exits)
+          },
           isError: false
         };
       }
       
+      if (currentRoom.locks?.[direction.toLowerCase()]) {
+        return {
+          content: [{ type: 'text', text: `The way ${direction} is locked. Perhaps a key would open it.` }],
+          structuredContent: {
+            moved: false,
+            from: roomRef(currentRoom),
+            exits: Object.keys(currentRoom.exits)
+          },
+          isError: false
+        };
+      }
+
       const targetRoom = world.rooms[targetRoomId];
       if (!targetRoom) {
         return {
@@ -241,7 +467,13 @@ class ToolsService extends EventEmitter {
         content: [{ 
           type: 'text', 
           text: `You move ${direction} to ${targetRoom.name}.` 
-        }]
+        }],
+        structuredContent: {
+          moved: true,
+          from: roomRef(currentRoom),
+          to: roomRef(targetRoom),
+          exits: Object.keys(targetRoom.exits)
+        }
       };
     } catch (error) {
       return {
@@ -280,20 +512,26 @@ class ToolsService extends EventEmitter {
     
     if (playerState.inventory.length === 0) {
       return {
-        content: [{ type: 'text', text: 'Your inventory is empty.' }]
+        content: [{ type: 'text', text: 'Your inventory is empty.' }],
+        structuredContent: { items: [], equipment: {} }
       };
     }
     
     const itemList = playerState.inventory.map(itemId => {
       const item = items[itemId];
-      return item ? item.name : itemId;
+      const name = item ? item.name : itemId;
+      return isEquipped(playerState, itemId) ? `${name} (equipped)` : name;
     }).join(', ');
     
     return {
       content: [{ 
         type: 'text', 
         text: `You are carrying: ${itemList}.` 
-      }]
+      }],
+      structuredContent: {
+        items: playerState.inventory.map(itemRef),
+        equipment: equipmentRefs(playerState.equipment)
+      }
     };
   };
 
@@ -316,7 +554,7 @@ class ToolsService extends EventEmitter {
       };
     }
 
-    const { item } = params as { item: string };
+    const { item } = params as { item?: string };
     const playerState = stateService.getPlayerState(session.playerId);
     if (!playerState) {
       return {
@@ -325,35 +563,63 @@ class ToolsService extends EventEmitter {
       };
     }
 
-    const world = stateService.getWorld();
+    const world = stateService.getWorld(session.playerId);
     const room = world.rooms[playerState.room];
     if (!room) {
       return {
         content: [{ type: 'text', text: 'Error: Invalid room.' }],
         isError: true
       };
-    }    // Find the item ID by name
-    const itemId = Object.keys(items).find(id => 
-      items[id].name.toLowerCase() === item.toLowerCase()
-    );
+    }
+
+    if (!canSee(playerState, room)) {
+      return {
+        content: [{ type: 'text', text: 'It is too dark to find anything here. A light would help.' }],
+        structuredContent: {
+          taken: false,
+          inventory: playerState.inventory.map(itemRef)
+        },
+        isError: false
+      };
+    }
+
+    // Find the item by name, asking the player if the name is missing or ambiguous
+    const itemId = await this.resolveName(item, room.items, id => items[id]?.name || id, {
+      message: item ? `Which item did you mean by "${item}"?` : 'Which item do you want to take?',
+      field: 'item'
+    }, context);
 
-    if (!itemId || !room.items.includes(itemId)) {
+    if (!itemId) {
       // Debug info - let's see what's actually in the room
       const availableItems = room.items.map(id => items[id]?.name || id).join(', ');
       const debugText = room.items.length > 0 
-        ? `Available items in this room: ${availableItems}. Looking for: ${item}`
-        : `No items in this room. Looking for: ${item}`;
+        ? `Available items in this room: ${availableItems}.${item ? ` Looking for: ${item}` : ''}`
+        : `No items in this room.${item ? ` Looking for: ${item}` : ''}`;
       
       return {
         content: [{ 
           type: 'text', 
-          text: `There is no ${item} here to take. ${debugText}` 
+          text: item ? `There is no ${item} here to take. ${debugText}` : `You take nothing. ${debugText}`
         }],
+        structuredContent: {
+          taken: false,
+          inventory: playerState.inventory.map(itemRef)
+        },
         isError: false
       };
-    }// Add to inventory and remove from room
-    stateService.addItemToInventory(session.playerId, itemId);
-    stateService.removeItemFromRoom(playerState.room, itemId);
+    }
+
+    // Someone else may have taken it, or the player moved on, while we asked which item they meant
+    if (!stateService.addItemToInventory(session.playerId, itemId)) {
+      return {
+        content: [{ type: 'text', text: `The ${items[itemId]?.name || itemId} is no longer here.` }],
+        structuredContent: {
+          taken: false,
+          inventory: playerState.inventory.map(itemRef)
+        },
+        isError: false
+      };
+    }
 
     // Emit tools changed since items in room changed
     stateService.emit('TOOLS_CHANGED', { playerId: session.playerId });
@@ -362,10 +628,193 @@ class ToolsService extends EventEmitter {
       content: [{ 
         type: 'text', 
         text: `You take the ${items[itemId].name}.` 
-      }]
+      }],
+      structuredContent: {
+        taken: true,
+        item: itemRef(itemId),
+        inventory: (stateService.getPlayerState(session.playerId)?.inventory ?? []).map(itemRef)
+      }
     };
   };
 
+  /**
+   * Use an item from the inventory: drink a potion, unlock an exit with a key, or
+   * equip a weapon, armor or light
+   */
+  private useHandler = async (params: Record<string, unknown>, context: McpContext): Promise<ToolResult> => {
+    const session = context.sessionId ? stateService.getSession(context.sessionId) : undefined;
+    const playerState = session ? stateService.getPlayerState(session.playerId) : undefined;
+    if (!session || !playerState) {
+      return {
+        content: [{ type: 'text', text: 'Error: Invalid session. Please try again.' }],
+        isError: true
+      };
+    }
+
+    const { item } = params as { item?: string };
+    const itemId = await this.resolveName(item, playerState.inventory.filter(isUsable), itemName, {
+      message: item ? `Which item did you mean by "${item}"?` : 'Which item do you want to use?',
+      field: 'item'
+    }, context);
+
+    if (!itemId) {
+      return {
+        content: [{ type: 'text', text: item ? `You are not carrying anything called ${item} that you can use.` : 'You use nothing.' }],
+        structuredContent: { used: false, hp: playerState.hp },
+        isError: false
+      };
+    }
+
+    const data = items[itemId];
+    if (data.type === 'consumable') {
+      if (playerState.hp >= playerState.maxHp) {
+        return {
+          content: [{ type: 'text', text: `You are already at full health. You save the ${data.name} for later.` }],
+          structuredContent: { used: false, item: itemRef(itemId), hp: playerState.hp },
+          isError: false
+        };
+      }
+
+      const before = playerState.hp;
+      stateService.consumeItem(session.playerId, itemId);
+      const hp = stateService.healPlayer(session.playerId, data.heal ?? 0);
+      return {
+        content: [{ type: 'text', text: `You use the ${data.name} and recover ${hp - before} HP. You have ${hp}/${playerState.maxHp} HP.` }],
+        structuredContent: { used: true, item: itemRef(itemId), effect: 'healed', hp }
+      };
+    }
+
+    if (data.type === 'key') {
+      const room = stateService.getWorld(session.playerId).rooms[playerState.room];
+      const directions = Object.entries(room?.locks ?? {})
+        .filter(([, keyId]) => keyId === itemId)
+        .map(([direction]) => direction);
+      if (!room || directions.length === 0) {
+        return {
+          content: [{ type: 'text', text: `There is nothing here that the ${data.name} opens.` }],
+          structuredContent: { used: false, item: itemRef(itemId), hp: playerState.hp },
+          isError: false
+        };
+      }
+
+      directions.forEach(direction => stateService.unlockExit(session.playerId, room.id, direction));
+      return {
+        content: [{ type: 'text', text: `You turn the ${data.name} in the lock. The way ${directions.join(' and ')} is open.` }],
+        structuredContent: { used: true, item: itemRef(itemId), effect: 'unlocked', unlocked: directions, hp: playerState.hp }
+      };
+    }
+
+    // Weapons, armor and lights are used by equipping them
+    if (isEquipped(playerState, itemId)) {
+      return {
+        content: [{ type: 'text', text: `You already have the ${data.name} equipped.` }],
+        structuredContent: { used: false, item: itemRef(itemId), hp: playerState.hp },
+        isError: false
+      };
+    }
+    return {
+      content: [{ type: 'text', text: this.equip(session.playerId, itemId) }],
+      structuredContent: { used: true, item: itemRef(itemId), effect: 'equipped', hp: playerState.hp }
+    };
+  };
+
+  /**
+   * Equip a weapon, armor or light from the inventory
+   */
+  private equipHandler = async (params: Record<string, unknown>, context: McpContext): Promise<ToolResult> => {
+    const session = context.sessionId ? stateService.getSession(context.sessionId) : undefined;
+    const playerState = session ? stateService.getPlayerState(session.playerId) : undefined;
+    if (!session || !playerState) {
+      return {
+        content: [{ type: 'text', text: 'Error: Invalid session. Please try again.' }],
+        isError: true
+      };
+    }
+
+    const { item } = params as { item?: string };
+    const candidates = playerState.inventory.filter(itemId => equipmentSlotOf(itemId) && !isEquipped(playerState, itemId));
+    const itemId = await this.resolveName(item, candidates, itemName, {
+      message: item ? `Which item did you mean by "${item}"?` : 'Which item do you want to equip?',
+      field: 'item'
+    }, context);
+
+    if (!itemId) {
+      return {
+        content: [{ type: 'text', text: item ? `You are not carrying anything called ${item} that you can equip.` : 'You equip nothing.' }],
+        structuredContent: this.equipmentSummary(playerState, { equipped: false }),
+        isError: false
+      };
+    }
+
+    const replaced = playerState.equipment[equipmentSlotOf(itemId)!];
+    const text = this.equip(session.playerId, itemId);
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: this.equipmentSummary(playerState, {
+        equipped: true,
+        item: itemRef(itemId),
+        ...(replaced ? { replaced: itemRef(replaced) } : {})
+      })
+    };
+  };
+
+  /**
+   * Take off an equipped item, keeping it in the inventory
+   */
+  private unequipHandler = async (params: Record<string, unknown>, context: McpContext): Promise<ToolResult> => {
+    const session = context.sessionId ? stateService.getSession(context.sessionId) : undefined;
+    const playerState = session ? stateService.getPlayerState(session.playerId) : undefined;
+    if (!session || !playerState) {
+      return {
+        content: [{ type: 'text', text: 'Error: Invalid session. Please try again.' }],
+        isError: true
+      };
+    }
+
+    const { item } = params as { item?: string };
+    const itemId = await this.resolveName(item, Object.values(playerState.equipment) as string[], itemName, {
+      message: item ? `Which item did you mean by "${item}"?` : 'Which item do you want to take off?',
+      field: 'item'
+    }, context);
+
+    if (!itemId) {
+      return {
+        content: [{ type: 'text', text: item ? `You have nothing called ${item} equipped.` : 'You keep everything on.' }],
+        structuredContent: this.equipmentSummary(playerState, { unequipped: false }),
+        isError: false
+      };
+    }
+
+    stateService.unequipItem(session.playerId, itemId);
+    const stats = effectiveStats(playerState);
+    return {
+      content: [{ type: 'text', text: `You put away the ${itemName(itemId)}. Attack ${stats.attack}, defense ${stats.defense}.` }],
+      structuredContent: this.equipmentSummary(playerState, { unequipped: true, item: itemRef(itemId) })
+    };
+  };
+
+  // Equip an item and describe what changed
+  private equip(playerId: string, itemId: string): string {
+    const playerState = stateService.getPlayerState(playerId)!;
+    const replaced = playerState.equipment[equipmentSlotOf(itemId)!];
+    stateService.equipItem(playerId, itemId);
+
+    const stats = effectiveStats(playerState);
+    const swap = replaced && replaced !== itemId ? `You put away the ${itemName(replaced)} and equip` : 'You equip';
+    const light = equipmentSlotOf(itemId) === 'light' ? ' It lights up your surroundings.' : '';
+    return `${swap} the ${itemName(itemId)}.${light} Attack ${stats.attack}, defense ${stats.defense}.`;
+  }
+
+  private equipmentSummary(playerState: PlayerState, result: Record<string, unknown>): Record<string, unknown> {
+    const stats = effectiveStats(playerState);
+    return {
+      ...result,
+      equipment: equipmentRefs(playerState.equipment),
+      attack: stats.attack,
+      defense: stats.defense
+    };
+  }
+
   /**
    * Battle a monster in the room
    */
@@ -385,7 +834,7 @@ class ToolsService extends EventEmitter {
       };
     }
 
-    const { monster } = params as { monster: string };
+    const { monster } = params as { monster?: string };
     const playerState = stateService.getPlayerState(session.playerId);
     if (!playerState) {
       return {
@@ -394,7 +843,7 @@ class ToolsService extends EventEmitter {
       };
     }
 
-    const world = stateService.getWorld();
+    const world = stateService.getWorld(session.playerId);
     const room = world.rooms[playerState.room];
     if (!room) {
       return {
@@ -403,50 +852,110 @@ class ToolsService extends EventEmitter {
       };
     }
 
-    // Find the monster by name
-    const monsterId = Object.keys(monsters).find(id => 
-      monsters[id].name.toLowerCase() === monster.toLowerCase()
-    );
+    // Once a fight has started, battle keeps attacking the same monster
+    const opponent = combatService.getOpponent(session.playerId);
+    const monsterId = opponent ?? await this.resolveName(monster, room.monsters, id => monsters[id]?.name || id, {
+      message: monster ? `Which monster did you mean by "${monster}"?` : 'Which monster do you want to battle?',
+      field: 'monster'
+    }, context);
 
-    if (!monsterId || !room.monsters.includes(monsterId)) {
+    if (!monsterId || !monsters[monsterId]) {
       return {
-        content: [{ type: 'text', text: `There is no ${monster} here to battle.` }],
+        content: [{ type: 'text', text: monster ? `There is no ${monster} here to battle.` : 'You do not pick a fight.' }],
+        structuredContent: { fought: false, won: false, playerHp: playerState.hp },
         isError: false
       };
     }
 
     const monsterData = monsters[monsterId];
-    
-    // Simple battle logic - player has 50% chance to win
-    const playerWins = Math.random() > 0.5;
-    
-    if (playerWins) {
-      // Remove monster from room
-      const roomData = world.rooms[playerState.room];
-      roomData.monsters = roomData.monsters.filter(id => id !== monsterId);
-      
-      // Update player state
-      stateService.updatePlayerRoom(session.playerId, playerState.room);
-      
-      // Emit tools changed since monsters in room changed
-      stateService.emit('TOOLS_CHANGED', { playerId: session.playerId });
-      
+    if (opponent && monster && !monsterData.name.toLowerCase().includes(monster.trim().toLowerCase())) {
       return {
-        content: [{ 
-          type: 'text', 
-          text: `You successfully defeat the ${monsterData.name}! The creature falls and disappears into shadows.` 
-        }]
+        content: [{ type: 'text', text: `You are already fighting the ${monsterData.name}. Finish the fight or flee first.` }],
+        structuredContent: { fought: false, won: false, playerHp: playerState.hp },
+        isError: false
       };
-    } else {
+    }
+
+    // Only starting a fight needs confirming; later rounds continue it
+    if (!opponent) {
+      const health = stateService.getMonsterHealth(session.playerId, room.id, monsterId) ?? monsterData.health;
+      const confirmed = await this.confirmDestructive('battle',
+        `Fight the ${monsterData.name}? It has ${health} health and deals ${monsterData.damage} damage; you have ${playerState.hp} HP.`, context);
+      if (!confirmed) {
+        return {
+          content: [{ type: 'text', text: `You think better of it and leave the ${monsterData.name} alone.` }],
+          structuredContent: { fought: false, won: false, playerHp: playerState.hp }
+        };
+      }
+    }
+
+    const round = combatService.attack(session.playerId, monsterId);
+    if (!round) {
       return {
-        content: [{ 
-          type: 'text', 
-          text: `The ${monsterData.name} proves too strong! You retreat but remain in the room. Try again when you're ready.` 
-        }]
+        content: [{ type: 'text', text: `The ${monsterData.name} is no longer here.` }],
+        structuredContent: { fought: false, won: false, playerHp: playerState.hp },
+        isError: false
       };
     }
+    return this.combatResult(round, playerState);
+  };
+
+  /**
+   * Defend against the monster you are fighting
+   */
+  private defendHandler = async (params: Record<string, unknown>, context: McpContext): Promise<ToolResult> => {
+    return this.combatAction('defend', context);
+  };
+
+  /**
+   * Try to escape from the monster you are fighting
+   */
+  private fleeHandler = async (params: Record<string, unknown>, context: McpContext): Promise<ToolResult> => {
+    return this.combatAction('flee', context);
   };
 
+  private combatAction(action: 'defend' | 'flee', context: McpContext): ToolResult {
+    const session = context.sessionId ? stateService.getSession(context.sessionId) : undefined;
+    const playerState = session ? stateService.getPlayerState(session.playerId) : undefined;
+    if (!session || !playerState) {
+      return {
+        content: [{ type: 'text', text: 'Error: Invalid session. Please try again.' }],
+        isError: true
+      };
+    }
+
+    const round = action === 'defend' ? combatService.defend(session.playerId) : combatService.flee(session.playerId);
+    if (!round) {
+      return {
+        content: [{ type: 'text', text: 'You are not fighting anything.' }],
+        structuredContent: { fought: false, won: false, playerHp: playerState.hp },
+        isError: false
+      };
+    }
+    return this.combatResult(round, playerState);
+  }
+
+  private combatResult(round: CombatRound, playerState: PlayerState): ToolResult {
+    const world = stateService.getWorld(playerState.player_id);
+    const roomName = (roomId: string) => world.rooms[roomId]?.name ?? roomId;
+
+    return {
+      content: [{ type: 'text', text: describeRound(round, playerState, roomName) }],
+      structuredContent: {
+        fought: true,
+        monster: monsterRef(round.monsterId),
+        won: round.outcome === 'victory',
+        outcome: round.outcome,
+        round: round.round,
+        damageDealt: round.damageDealt,
+        damageTaken: round.damageTaken,
+        playerHp: round.playerHp,
+        monsterHp: round.monsterHp,
+        ...(round.fledTo ? { fledTo: { id: round.fledTo, name: roomName(round.fledTo) } } : {})
+      }
+    };
+  }
+
   /**
    * Talk to NPCs, monsters, or mystical entities using AI-powered dialogue
    */
@@ -467,7 +976,7 @@ class ToolsService extends EventEmitter {
         };
       }
 
-      if (!samplingService.isAvailable()) {
+      if (!samplingService.isAvailable(context.sessionId)) {
         return {
           content: [{ type: 'text', text: 'AI-powered dialogue is not available. This feature requires a client that supports sampling.' }],
           isError: true
@@ -476,7 +985,7 @@ class ToolsService extends EventEmitter {
 
       const { target, message } = params as { target: string; message: string };
       const playerState = stateService.getPlayerState(session.playerId);
-      const world = stateService.getWorld();
+      const world = stateService.getWorld(session.playerId);
       
       if (!playerState) {
         return {
@@ -508,6 +1017,9 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         return monster && (monster.name.toLowerCase().includes(target.toLowerCase()) || monsterId.toLowerCase().includes(target.toLowerCase()));
       });
 
+      // Sampling can take a while; let the client show that something is happening
+      await context.sendProgress?.(0, 1, `Waiting for ${target} to answer...`);
+
       // Generate contextual response based on target type
       let response: string;
       
@@ -524,36 +1036,47 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         response = await samplingService.generateNPCDialogue(
           actualMonsterName,
           message,
-          `${gameContext}\n\nThe player is talking to a ${actualMonsterName} - a dangerous creature that might respond with hostility, curiosity, or unexpected wisdom depending on the approach.`
+          `${gameContext}\n\nThe player is talking to a ${actualMonsterName} - a dangerous creature that might respond with hostility, curiosity, or unexpected wisdom depending on the approach.`,
+          context.sessionId,
+          context.signal
         );
       } else if (target.toLowerCase().includes('spirit') || target.toLowerCase().includes('ghost') || target.toLowerCase().includes('echo')) {
         // Talking to mystical entities
         response = await samplingService.generateNPCDialogue(
           'Ancient Spirit',
           message,
-          `${gameContext}\n\nThe player is attempting to communicate with mystical forces or echoes in this ancient place. The spirit might offer cryptic wisdom, warnings, or riddles.`
+          `${gameContext}\n\nThe player is attempting to communicate with mystical forces or echoes in this ancient place. The spirit might offer cryptic wisdom, warnings, or riddles.`,
+          context.sessionId,
+          context.signal
         );
       } else if (target.toLowerCase().includes('wall') || target.toLowerCase().includes('stone') || target.toLowerCase().includes('room')) {
         // Talking to inanimate objects or the room itself
         response = await samplingService.generateNPCDialogue(
           'Ancient Echoes',
           message,
-          `${gameContext}\n\nThe player is talking to the room itself or objects within it. Ancient magic might cause echoes or whispers to respond with memories of past events.`
+          `${gameContext}\n\nThe player is talking to the room itself or objects within it. Ancient magic might cause echoes or whispers to respond with memories of past events.`,
+          context.sessionId,
+          context.signal
         );
       } else {
         // Generic NPC or unknown target
         response = await samplingService.generateNPCDialogue(
           target,
           message,
-          `${gameContext}\n\nThe player is talking to someone or something called "${target}". Respond as this entity would in the context of a fantasy adventure.`
+          `${gameContext}\n\nThe player is talking to someone or something called "${target}". Respond as this entity would in the context of a fantasy adventure.`,
+          context.sessionId,
+          context.signal
         );
       }
 
+      await context.sendProgress?.(1, 1, `${target} has answered`);
+
       return {
         content: [{ 
           type: 'text', 
           text: `You speak to ${target}: "${message}"\n\n${response}` 
-        }]
+        }],
+        structuredContent: { target, message, reply: response }
       };
 
     } catch (error) {
@@ -580,6 +1103,19 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         properties: {},
         required: []
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          room: ENTITY_REF_SCHEMA,
+          exits: { type: 'array', items: { type: 'string' }, description: 'Directions you can move in' },
+          locked: { type: 'array', items: { type: 'string' }, description: 'Exits that need a key to be opened first' },
+          dark: { type: 'boolean', description: 'True if it is too dark to see the items; equip a light' },
+          items: { type: 'array', items: ENTITY_REF_SCHEMA },
+          monsters: { type: 'array', items: ENTITY_REF_SCHEMA },
+          questAvailable: { type: 'boolean' }
+        },
+        required: ['room', 'exits', 'items', 'monsters', 'questAvailable']
+      },
       annotations: {
         title: 'Look Around',
         readOnlyHint: true,
@@ -598,12 +1134,22 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         properties: {
           direction: {
             type: 'string',
-            enum: ['north', 'south', 'east', 'west'],
-            description: 'The direction to move (north, south, east, west)'
+            enum: [...DIRECTIONS],
+            description: `The direction to move (${DIRECTIONS.join(', ')})`
           }
         },
         required: ['direction']
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          moved: { type: 'boolean', description: 'False if there is no exit in that direction' },
+          from: ENTITY_REF_SCHEMA,
+          to: { ...ENTITY_REF_SCHEMA, description: 'Only present if you moved' },
+          exits: { type: 'array', items: { type: 'string' }, description: 'Exits of the room you are now in' }
+        },
+        required: ['moved', 'from', 'exits']
+      },
       annotations: {
         title: 'Move',
         readOnlyHint: false,
@@ -622,6 +1168,14 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         properties: {},
         required: []
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: ENTITY_REF_SCHEMA },
+          equipment: EQUIPMENT_SCHEMA
+        },
+        required: ['items', 'equipment']
+      },
       annotations: {
         title: 'Check Inventory',
         readOnlyHint: true,
@@ -638,10 +1192,19 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         properties: {
           item: {
             type: 'string',
-            description: 'The name of the item to take'
+            description: 'The name of the item to take; if left out or ambiguous, you may be asked to pick one'
           }
         },
-        required: ['item']
+        required: []
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          taken: { type: 'boolean', description: 'False if the item is not in the room' },
+          item: { ...ENTITY_REF_SCHEMA, description: 'Only present if you took it' },
+          inventory: { type: 'array', items: ENTITY_REF_SCHEMA, description: 'Your inventory afterwards' }
+        },
+        required: ['taken', 'inventory']
       },
       annotations: {
         title: 'Take Item',
@@ -652,20 +1215,124 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
       }
     }, this.takeHandler);
 
+    // Use tool - may use up the item
+    this.registerTool({
+      name: 'use',
+      description: 'Use an item you are carrying: drink a potion to restore HP, open a locked exit with a key, or equip a weapon, armor or light.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          item: {
+            type: 'string',
+            description: 'The name of the item to use; if left out or ambiguous, you may be asked to pick one'
+          }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          used: { type: 'boolean', description: 'False if nothing happened' },
+          item: ENTITY_REF_SCHEMA,
+          effect: { type: 'string', enum: ['healed', 'unlocked', 'equipped'] },
+          unlocked: { type: 'array', items: { type: 'string' }, description: 'Exits the key opened' },
+          hp: { type: 'integer', minimum: 0, description: 'Your hit points afterwards' }
+        },
+        required: ['used', 'hp']
+      },
+      annotations: {
+        title: 'Use Item',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    }, this.useHandler);
+
+    // Equip tool - state-changing but non-destructive
+    this.registerTool({
+      name: 'equip',
+      description: 'Equip a weapon, armor or light from your inventory. Weapons add to your attack, armor to your defense, and a light lets you see in dark rooms.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          item: {
+            type: 'string',
+            description: 'The name of the item to equip; if left out or ambiguous, you may be asked to pick one'
+          }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          equipped: { type: 'boolean', description: 'False if you carry no such item to equip' },
+          item: ENTITY_REF_SCHEMA,
+          replaced: { ...ENTITY_REF_SCHEMA, description: 'Item that was in the slot before' },
+          equipment: EQUIPMENT_SCHEMA,
+          attack: { type: 'integer' },
+          defense: { type: 'integer' }
+        },
+        required: ['equipped', 'equipment', 'attack', 'defense']
+      },
+      annotations: {
+        title: 'Equip Item',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    }, this.equipHandler);
+
+    // Unequip tool - state-changing but non-destructive
+    this.registerTool({
+      name: 'unequip',
+      description: 'Take off an equipped item. It stays in your inventory.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          item: {
+            type: 'string',
+            description: 'The name of the item to take off; if left out or ambiguous, you may be asked to pick one'
+          }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          unequipped: { type: 'boolean', description: 'False if you have no such item equipped' },
+          item: ENTITY_REF_SCHEMA,
+          equipment: EQUIPMENT_SCHEMA,
+          attack: { type: 'integer' },
+          defense: { type: 'integer' }
+        },
+        required: ['unequipped', 'equipment', 'attack', 'defense']
+      },
+      annotations: {
+        title: 'Unequip Item',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    }, this.unequipHandler);
+
     // Battle tool - destructive operation
     this.registerTool({
       name: 'battle',
-      description: 'Engage in combat with a monster in the current room.',
+      description: 'Attack a monster in the current room. Each call fights one round: you strike, then the monster strikes back. Once a fight has started, battle keeps attacking the same monster.',
       inputSchema: {
         type: 'object',
         properties: {
           monster: {
             type: 'string',
-            description: 'The name of the monster to battle'
+            description: 'The name of the monster to battle; if left out or ambiguous, you may be asked to pick one'
           }
         },
-        required: ['monster']
+        required: []
       },
+      outputSchema: COMBAT_OUTPUT_SCHEMA,
       annotations: {
         title: 'Battle Monster',
         readOnlyHint: false,
@@ -675,6 +1342,44 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
       }
     }, this.battleHandler);
 
+    // Defend tool - only offered during a fight
+    this.registerTool({
+      name: 'defend',
+      description: 'Raise your guard for one round of the fight, halving the damage the monster deals.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      },
+      outputSchema: COMBAT_OUTPUT_SCHEMA,
+      annotations: {
+        title: 'Defend',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    }, this.defendHandler);
+
+    // Flee tool - only offered during a fight
+    this.registerTool({
+      name: 'flee',
+      description: 'Try to escape the fight through a random exit. If you fail, the monster strikes.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      },
+      outputSchema: COMBAT_OUTPUT_SCHEMA,
+      annotations: {
+        title: 'Flee',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    }, this.fleeHandler);
+
     // Talk tool - AI-powered NPC interactions (requires sampling)
     this.registerTool({
       name: 'talk',
@@ -693,6 +1398,15 @@ Player has quest: ${playerState.hasQuest ? 'yes' : 'no'}
         },
         required: ['target', 'message']
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          target: { type: 'string' },
+          message: { type: 'string' },
+          reply: { type: 'string', description: 'What the target said back' }
+        },
+        required: ['target', 'message', 'reply']
+      },
       annotations: {
         title: 'Talk/Communicate',
         readOnlyHint: false,
@@ -0,0 +1,18 @@
+import type { StorageBackend } from '../types/index.js';
+import type { SystemConfig } from '../config/system.js';
+import { MemoryStorage } from './memoryStorage.js';
+import { JsonFileStorage } from './jsonFileStorage.js';
+
+export { MemoryStorage, JsonFileStorage };
+
+/**
+ * Create the storage backend selected in the system configuration
+ */
+export function createStorage(config: SystemConfig['storage']): StorageBackend {
+  switch (config.backend) {
+    case 'file':
+      return new JsonFileStorage(config.filePath);
+    case 'memory':
+      return new MemoryStorage();
+  }
+}
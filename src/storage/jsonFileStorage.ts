@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import type { GameSnapshot, StorageBackend } from '../types/index.js';
+import { logger } from '../config/logger.js';
+
+/**
+ * JSON file storage backend
+ *
+ * Snapshots are written to a temporary file that is flushed to disk and then renamed
+ * over the previous snapshot, so a crash mid-save leaves the old file intact.
+ */
+export class JsonFileStorage implements StorageBackend {
+  private filePath: string;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<GameSnapshot | undefined> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(data) as GameSnapshot;
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported game state version ${snapshot.version} in ${this.filePath}`);
+    }
+    logger.info(`[Storage] Loaded game state saved at ${snapshot.savedAt} from ${this.filePath}`);
+    return snapshot;
+  }
+
+  save(snapshot: GameSnapshot): Promise<void> {
+    // Serialize writes so two saves never race on the temporary file
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(() => this.writeAtomically(JSON.stringify(snapshot, null, 2)));
+    return this.pendingSave;
+  }
+
+  private async writeAtomically(data: string): Promise<void> {
+    const directory = path.dirname(this.filePath);
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,20 @@
+import type { GameSnapshot, StorageBackend } from '../types/index.js';
+
+/**
+ * In-memory storage backend
+ *
+ * Keeps the latest snapshot for the lifetime of the process. Useful for development
+ * and for running the server without touching the file system.
+ */
+export class MemoryStorage implements StorageBackend {
+  private snapshot?: GameSnapshot;
+
+  async load(): Promise<GameSnapshot | undefined> {
+    return this.snapshot ? structuredClone(this.snapshot) : undefined;
+  }
+
+  async save(snapshot: GameSnapshot): Promise<void> {
+    // Copy so later state changes cannot leak into the stored snapshot
+    this.snapshot = structuredClone(snapshot);
+  }
+}
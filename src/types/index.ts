@@ -30,12 +30,33 @@ export interface JsonRpcNotification {
 }
 
 // Game State Types
-export interface PlayerState {
+export interface PlayerStats {
+  hp: number;        // Hit points left; at zero the player dies and respawns at the entrance
+  maxHp: number;
+  attack: number;    // Damage dealt per hit, before the roll
+  defense: number;   // Subtracted from every hit taken
+}
+
+// A fight in progress. The monster's wounds are kept in the world, not here.
+export interface CombatState {
+  monsterId: string;
+  roomId: string;
+  round: number;     // Rounds fought so far
+}
+
+// Where worn or wielded items go; each slot holds one item from the inventory
+export type EquipmentSlot = 'weapon' | 'armor' | 'light';
+
+export type Equipment = { [slot in EquipmentSlot]?: string };  // slot -> itemId
+
+export interface PlayerState extends PlayerStats {
   player_id: string;
   room: string;
   inventory: string[];
+  equipment: Equipment;  // Equipped items stay in the inventory too
   hasQuest: boolean;
   monsterPresent: boolean;
+  combat?: CombatState;
 }
 
 export interface Room {
@@ -47,7 +68,12 @@ export interface Room {
   };
   items: string[];
   monsters: string[];
+  dark?: boolean;                   // Items can only be seen with a light equipped
+  locks?: {
+    [direction: string]: string;    // direction: itemId of the key that opens the exit
+  };
   hasQuest: boolean;
+  quest?: string;  // id of the quest offered here
 }
 
 export interface GameWorld {
@@ -55,9 +81,17 @@ export interface GameWorld {
   players: { [playerId: string]: PlayerState };
 }
 
+// What an item does: consumables are used up, weapons, armor and lights are equipped,
+// keys open locked exits and misc items (treasure, quest items) are just carried
+export type ItemType = 'misc' | 'consumable' | 'weapon' | 'armor' | 'key' | 'light';
+
 export interface Item {
   name: string;
   description: string;
+  type?: ItemType;   // misc when absent
+  heal?: number;     // Hit points a consumable restores
+  attack?: number;   // Added to the player's attack while a weapon is equipped
+  defense?: number;  // Added to the player's defense while armor is equipped
 }
 
 export interface Monster {
@@ -77,10 +111,50 @@ export interface Quest {
 export interface Session {
   id: string;
   playerId: string;
+  connectionId?: string;  // transport connection the session is bound to
+  resumeToken: string;    // secret a reconnecting client presents to reclaim the session
+  seed: number;           // seed of the session's random source, to replay the game
+  disconnectedAt?: Date;  // set while the session waits to be resumed
   lastActive: Date;
 }
 
+// Persistence
+export interface RoomMutation {
+  itemsTaken: string[];
+  monstersDefeated: string[];
+  monsterDamage?: { [monsterId: string]: number };  // Damage taken by monsters that are still alive
+  exitsUnlocked?: string[];                         // Directions whose lock has been opened
+}
+
+export interface PersistedSession {
+  id: string;
+  playerId: string;
+  resumeToken: string;
+  seed?: number;         // absent in games saved before seeds existed
+  randomState?: number;  // where the session's random source had got to
+  lastActive: string;  // ISO timestamp
+}
+
+export interface GameSnapshot {
+  version: 1;
+  savedAt: string;  // ISO timestamp
+  players: PlayerState[];
+  sessions: PersistedSession[];
+  sessionsCreated?: number;  // sessions started so far, which picks the next seed derived from MUD_SEED
+  rooms: { [roomId: string]: RoomMutation };                                  // shared world
+  instances?: { [playerId: string]: { [roomId: string]: RoomMutation } };     // instanced dungeons
+}
+
+export interface StorageBackend {
+  load(): Promise<GameSnapshot | undefined>;
+  save(snapshot: GameSnapshot): Promise<void>;
+}
+
 // Events
+
+// What changed about a player: where they are, what they carry, their quest, their health and fight, or the contents of their room
+export type PlayerUpdate = 'location' | 'inventory' | 'quest' | 'health' | 'room';
+
 export type GameEvent = 
   | { type: 'PLAYER_MOVED', playerId: string, from: string, to: string }
   | { type: 'ITEM_PICKED', playerId: string, item: string }
@@ -89,7 +163,8 @@ export type GameEvent =
   | { type: 'BATTLE_LOST', playerId: string, monster: string }
   | { type: 'QUEST_ACCEPTED', playerId: string }
   | { type: 'TOOLS_CHANGED', playerId: string }
-  | { type: 'PROMPTS_CHANGED', playerId: string };
+  | { type: 'PROMPTS_CHANGED', playerId: string }
+  | { type: 'PLAYER_UPDATED', playerId: string, changes: PlayerUpdate[] };
 
 // Tool Types (Updated for MCP 2025-03-26)
 export interface Tool {
@@ -100,6 +175,12 @@ export interface Tool {
     properties?: Record<string, any>;
     required?: string[];
   };
+  /** Shape of the result's structuredContent */
+  outputSchema?: {
+    type: "object";
+    properties?: Record<string, any>;
+    required?: string[];
+  };
   annotations?: {
     title?: string;
     readOnlyHint?: boolean;
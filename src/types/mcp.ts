@@ -43,10 +43,31 @@ export interface McpServerOptions {
   description?: string;
 }
 
+// Transport abstraction shared by stdio and network transports.
+// connectionId identifies the client connection a message came from or is addressed to;
+// sending without one broadcasts to every connection.
+export type TransportMessageHandler = (message: McpRequest | McpNotification, connectionId: string) => void;
+
+export interface McpTransport {
+  start(): Promise<void>;
+  close(): Promise<void>;
+  send(message: McpRequest | McpResponse | McpNotification, connectionId?: string): Promise<void>;
+  onMessage(handler: TransportMessageHandler): void;
+  onClose(handler: () => void): void;
+  // ended is true when the client ended its session explicitly rather than going away
+  onDisconnect(handler: (connectionId: string, ended?: boolean) => void): void;
+  // Whether a request sent to the connection now would reach the client
+  canSendRequests(connectionId: string): boolean;
+}
+
 // Context for request handlers
 export interface McpContext {
   transport: StdioServerTransport | null;
   sessionId?: string;
+  // Aborted when the client cancels the request with notifications/cancelled
+  signal?: AbortSignal;
+  // Sends notifications/progress if the client asked for progress with _meta.progressToken
+  sendProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
 }
 
 // Tool related types
@@ -72,6 +93,7 @@ export interface Tool {
 
 export interface ToolResult {
   content: Array<{ type: string; text: string }>;
+  structuredContent?: Record<string, unknown>; // Matches the tool's outputSchema when it declares one
   isError?: boolean;
 }
 
@@ -158,4 +180,54 @@ export interface CreateMessageResult {
   stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | 'error';
 }
 
-export type SamplingHandler = (request: CreateMessageRequest) => Promise<CreateMessageResult>;
\ No newline at end of file
+// sessionId names the session the completion is for, so the request reaches that session's client;
+// aborting signal cancels the request
+export type SamplingHandler = (
+  request: CreateMessageRequest,
+  options?: { sessionId?: string; signal?: AbortSignal }
+) => Promise<CreateMessageResult>;
+
+// Elicitation related types
+// Elicitation forms are flat: each field is a string, number, boolean or enum
+export interface ElicitationField {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  enum?: string[];
+  default?: string | number | boolean;
+}
+
+export interface ElicitRequest {
+  message: string;
+  requestedSchema: {
+    type: 'object';
+    properties: Record<string, ElicitationField>;
+    required?: string[];
+  };
+}
+
+export interface ElicitResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, string | number | boolean>; // Only present when the user accepted
+}
+
+// Like SamplingHandler, sessionId picks the client to ask and aborting signal withdraws the question
+export type ElicitationHandler = (
+  request: ElicitRequest,
+  options?: { sessionId?: string; signal?: AbortSignal }
+) => Promise<ElicitResult>;
+
+// Completion related types
+// 'ref/tool' is our own extension; the specification only defines prompt and resource references
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string }
+  | { type: 'ref/tool'; name: string };
+
+export interface CompletionResult {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+export type Completer = (value: string, playerId: string | undefined, context: { arguments?: Record<string, string> }) => string[];
@@ -0,0 +1,48 @@
+import { loadWorldDefinition, WorldLoadError } from './config/worldLoader.js';
+import { getWorldDefinition } from './config/world.js';
+import { systemConfig } from './config/system.js';
+import { validateWorld, formatValidationReport } from './game/worldValidator.js';
+
+/**
+ * World linter
+ *
+ * Usage: validate-world [worldDirectory] [--strict]
+ *
+ * Validates the given world directory (or MUD_WORLD_DIR, or the built-in world).
+ * Exits with status 1 when there are errors, or warnings with --strict.
+ */
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const strict = args.includes('--strict');
+  const directory = args.find(arg => !arg.startsWith('--')) ?? systemConfig.world.directory;
+
+  let definition;
+  try {
+    definition = directory ? await loadWorldDefinition(directory) : getWorldDefinition();
+  } catch (error) {
+    if (error instanceof WorldLoadError) {
+      console.error(error.message);
+      return 1;
+    }
+    throw error;
+  }
+
+  const issues = validateWorld(definition);
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  console.log(`Validated ${directory ?? 'built-in world'}: ${Object.keys(definition.rooms).length} rooms`);
+  if (issues.length > 0) {
+    console.log(formatValidationReport(issues));
+  }
+  console.log(`${errors} error(s), ${warnings} warning(s)`);
+
+  return errors > 0 || (strict && warnings > 0) ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });